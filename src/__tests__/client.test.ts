@@ -1,5 +1,15 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import { OneclawClient, createClient } from "../core/client";
+import { AgentsResource } from "../resources/agents";
+import * as declarative from "../declarative";
+import { loadIntoEnv } from "../env";
+import { resolveSecrets } from "../references";
+import { OneclawError, UnresolvedReferencesError, ValidationError } from "../core/errors";
+import { RotationEngine, randomTokenRotator, agentKeyRotator, type Rotator } from "../rotation";
+import { ROTATION_METADATA_KEY } from "../core/rotation-policy";
+import { parseDuration } from "../core/duration";
+import { ReportsResource, sortExpiringItems } from "../resources/reports";
+import { renderExpiringReport } from "../formats/expiring-report";
 
 const originalFetch = globalThis.fetch;
 
@@ -16,6 +26,45 @@ function mockFetch(status: number, body: unknown) {
     } as unknown as Response);
 }
 
+/** A request seen by `routeFetch`. */
+interface RoutedRequest {
+    /** "METHOD path", e.g. "GET /v1/vaults". */
+    route: string;
+    method: string;
+    url: URL;
+    init?: RequestInit;
+}
+
+/**
+ * Fake API for the client's `fetch` option. `respond` maps a request to
+ * a JSON body, or takes a record keyed by "METHOD path". No body
+ * (`undefined`) answers `missingStatus` with a `{ detail }` error.
+ */
+function routeFetch(
+    respond: Record<string, unknown> | ((req: RoutedRequest) => unknown),
+    missingStatus = 404,
+) {
+    const handle =
+        typeof respond === "function" ? respond : (req: RoutedRequest) => respond[req.route];
+    return vi.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+        const parsed = new URL(String(url));
+        const method = init?.method ?? "GET";
+        const body = handle({ route: `${method} ${parsed.pathname}`, method, url: parsed, init });
+        const found = body !== undefined;
+        return {
+            ok: found,
+            status: found ? 200 : missingStatus,
+            headers: new Headers(),
+            json: () => Promise.resolve(found ? body : { detail: "not found" }),
+        } as unknown as Response;
+    });
+}
+
+/** A client that sends every request through `fetch`. */
+function clientFor(fetch: typeof globalThis.fetch) {
+    return new OneclawClient({ baseUrl: "https://api.test", token: "t", fetch });
+}
+
 describe("OneclawClient", () => {
     it("initializes all 14 resource properties", () => {
         globalThis.fetch = mockFetch(200, {});
@@ -34,6 +83,7 @@ describe("OneclawClient", () => {
         expect(client.apiKeys).toBeDefined();
         expect(client.chains).toBeDefined();
         expect(client.x402).toBeDefined();
+        expect(client.reports).toBeDefined();
     });
 
     it("auto-authenticates with agent apiKey + agentId on first request", async () => {
@@ -109,6 +159,712 @@ describe("OneclawClient", () => {
     });
 });
 
+describe("injected fetch", () => {
+    function okResponse(body: unknown) {
+        return {
+            ok: true,
+            status: 200,
+            headers: new Headers(),
+            json: () => Promise.resolve(body),
+        } as unknown as Response;
+    }
+
+    it("routes token refresh and resource calls through config.fetch", async () => {
+        globalThis.fetch = vi.fn();
+        const injected = vi
+            .fn()
+            .mockResolvedValueOnce(okResponse({ access_token: "agent-jwt", expires_in: 3600 }))
+            .mockResolvedValueOnce(okResponse({ vaults: [] }));
+
+        const client = new OneclawClient({
+            baseUrl: "https://api.test",
+            apiKey: "ocv_abc",
+            agentId: "agent-uuid",
+            fetch: injected,
+        });
+        await client.vault.list();
+
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+        expect(injected).toHaveBeenCalledTimes(2);
+        expect(injected.mock.calls[0][0]).toContain("/v1/auth/agent-token");
+        expect(injected.mock.calls[1][1].headers["Authorization"]).toBe("Bearer agent-jwt");
+    });
+
+    it("uses config.fetch for x402.withPayment", async () => {
+        globalThis.fetch = vi.fn();
+        const injected = vi.fn().mockResolvedValue(okResponse({ value: "v" }));
+
+        const client = new OneclawClient({
+            baseUrl: "https://api.test",
+            token: "t",
+            fetch: injected,
+        });
+        const res = await client.x402.withPayment("v-1", "key");
+
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+        expect(injected).toHaveBeenCalledOnce();
+        expect(res.data?.value).toBe("v");
+
+        const wrapped = await client.x402.withPayment("v-1", "key", undefined, { wrap: true });
+        expect(String(wrapped.data?.value)).toBe("[REDACTED]");
+        expect(wrapped.data?.value.reveal()).toBe("v");
+    });
+
+    it("merges requestInit extras into every request", async () => {
+        const injected = vi.fn().mockResolvedValue(okResponse({}));
+        const dispatcher = { name: "keep-alive-agent" };
+
+        const client = new OneclawClient({
+            baseUrl: "https://api.test",
+            token: "t",
+            fetch: injected,
+            requestInit: { keepalive: true, dispatcher },
+        });
+        await client.vault.list();
+
+        const init = injected.mock.calls[0][1];
+        expect(init.keepalive).toBe(true);
+        expect(init.dispatcher).toBe(dispatcher);
+        expect(init.method).toBe("GET");
+    });
+
+    it("static AgentsResource.enroll accepts a fetch implementation", async () => {
+        globalThis.fetch = vi.fn();
+        const injected = vi.fn().mockResolvedValue(okResponse({ agent_id: "a-1", message: "ok" }));
+
+        const res = await AgentsResource.enroll(
+            "https://api.test",
+            { name: "bot", human_email: "h@example.com" },
+            { fetch: injected },
+        );
+
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+        expect(injected.mock.calls[0][0]).toBe("https://api.test/v1/agents/enroll");
+        expect(res.agent_id).toBe("a-1");
+    });
+});
+
+describe("close and flush", () => {
+    it("flush waits for pending audit events and flushes the sink", async () => {
+        globalThis.fetch = mockFetch(200, {});
+        const order: string[] = [];
+        const client = new OneclawClient({
+            baseUrl: "https://api.test",
+            token: "t",
+            plugins: {
+                auditSink: {
+                    emit: async () => {
+                        await new Promise((r) => setTimeout(r, 5));
+                        order.push("emit");
+                    },
+                    flush: async () => {
+                        order.push("flush");
+                    },
+                },
+            },
+        });
+        await client.vault.list();
+        await client.close();
+        expect(order).toEqual(["emit", "flush"]);
+    });
+
+    it("close wipes cached secret values", async () => {
+        globalThis.fetch = mockFetch(200, { path: "key", value: "v" });
+        const client = new OneclawClient({ baseUrl: "https://api.test", token: "t", cache: {} });
+        await client.secrets.get("v-1", "key");
+        await client.secrets.get("v-1", "key");
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+        await client.close();
+        await client.secrets.get("v-1", "key");
+        expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("is a no-op without an audit sink", async () => {
+        const client = new OneclawClient({ baseUrl: "https://api.test", token: "t" });
+        await expect(client.flush()).resolves.toBeUndefined();
+    });
+});
+
+describe("declarative plan/apply", () => {
+    /** Route by "METHOD path"; anything else succeeds with an empty body. */
+    const routeApi = (routes: Record<string, unknown>) =>
+        routeFetch((req) => routes[req.route] ?? {});
+
+    const liveGrant = {
+        id: "p-old",
+        vault_id: "v-prod",
+        secret_path_pattern: "**",
+        principal_type: "user",
+        principal_id: "u-1",
+        permissions: ["read"],
+        conditions: {},
+        created_by: "u-0",
+        created_by_type: "user",
+        created_at: "2025-01-01T00:00:00Z",
+    };
+
+    const spec: declarative.DeclarativeSpec = {
+        vaults: [
+            {
+                name: "prod",
+                grants: [
+                    { principal_type: "user", principal_id: "u-1", secret_path_pattern: "**", permissions: ["read", "write"] },
+                    { agent: "deployer", secret_path_pattern: "deploy/*", permissions: ["read"] },
+                ],
+            },
+            { name: "staging" },
+        ],
+        agents: [{ name: "deployer", vaults: ["prod", "staging"] }],
+    };
+
+    it("plans creates and updates against live state", async () => {
+        const client = clientFor(routeApi({
+            "GET /v1/vaults": { vaults: [{ id: "v-prod", name: "prod" }] },
+            "GET /v1/agents": { agents: [] },
+            "GET /v1/vaults/v-prod/policies": { policies: [liveGrant] },
+        }));
+        const plan = await declarative.plan(client, spec);
+
+        expect(plan.steps.map((s) => `${s.action} ${s.kind}`)).toEqual([
+            "create vault",
+            "create agent",
+            "update grant",
+            "create grant",
+        ]);
+        expect(declarative.formatPlan(plan)).toContain(
+            'permissions: ["read"] -> ["read","write"]',
+        );
+    });
+
+    it("revokes live grants missing from a vault's grant list", async () => {
+        const client = clientFor(routeApi({
+            "GET /v1/vaults": { vaults: [{ id: "v-prod", name: "prod" }] },
+            "GET /v1/agents": { agents: [] },
+            "GET /v1/vaults/v-prod/policies": { policies: [liveGrant] },
+        }));
+        const plan = await declarative.plan(client, { vaults: [{ name: "prod", grants: [] }] });
+        expect(plan.steps).toMatchObject([{ kind: "grant", action: "revoke", policyId: "p-old" }]);
+    });
+
+    it("applies in dependency order, resolving new vault and agent IDs", async () => {
+        const fetcher = routeApi({
+            "GET /v1/vaults": { vaults: [{ id: "v-prod", name: "prod" }] },
+            "GET /v1/agents": { agents: [] },
+            "GET /v1/vaults/v-prod/policies": { policies: [liveGrant] },
+            "POST /v1/vaults": { id: "v-staging", name: "staging" },
+            "POST /v1/agents": { agent: { id: "a-new" }, api_key: "ocv_new" },
+        });
+        const client = clientFor(fetcher);
+        const plan = await declarative.plan(client, spec);
+        fetcher.mockClear();
+
+        const result = await declarative.apply(client, plan);
+
+        expect(result.failed).toBeUndefined();
+        expect(result.applied).toHaveLength(4);
+        expect(result.agentApiKeys).toEqual({ deployer: "ocv_new" });
+        const calls = fetcher.mock.calls.map(([url, init]) => ({
+            route: `${init?.method} ${new URL(String(url)).pathname}`,
+            body: init?.body ? JSON.parse(init.body as string) : undefined,
+        }));
+        expect(calls.map((c) => c.route)).toEqual([
+            "POST /v1/vaults",
+            "POST /v1/agents",
+            "PUT /v1/vaults/v-prod/policies/p-old",
+            "POST /v1/vaults/v-prod/policies",
+        ]);
+        expect(calls[1].body.vault_ids).toEqual(["v-prod", "v-staging"]);
+        expect(calls[3].body.principal_id).toBe("a-new");
+        expect(JSON.stringify(plan)).not.toContain("ocv_new");
+    });
+
+    it("deactivates an agent declared inactive right after creating it", async () => {
+        const fetcher = routeApi({
+            "GET /v1/vaults": { vaults: [] },
+            "GET /v1/agents": { agents: [] },
+            "POST /v1/agents": { agent: { id: "a-new" } },
+        });
+        const client = clientFor(fetcher);
+        const plan = await declarative.plan(client, {
+            agents: [{ name: "standby", is_active: false }],
+        });
+        expect(plan.steps.map((s) => `${s.action} ${s.kind}`)).toEqual([
+            "create agent",
+            "update agent",
+        ]);
+        fetcher.mockClear();
+
+        const result = await declarative.apply(client, plan);
+
+        expect(result.failed).toBeUndefined();
+        const calls = fetcher.mock.calls.map(([url, init]) => ({
+            route: `${init?.method} ${new URL(String(url)).pathname}`,
+            body: init?.body ? JSON.parse(init.body as string) : undefined,
+        }));
+        expect(calls.map((c) => c.route)).toEqual(["POST /v1/agents", "PATCH /v1/agents/a-new"]);
+        expect(calls[0].body).not.toHaveProperty("is_active");
+        expect(calls[1].body).toEqual({ is_active: false });
+    });
+
+    it("rejects references to unknown agents", async () => {
+        const client = clientFor(routeApi({
+            "GET /v1/vaults": { vaults: [] },
+            "GET /v1/agents": { agents: [] },
+        }));
+        await expect(
+            declarative.plan(client, {
+                vaults: [{ name: "prod", grants: [{ agent: "ghost", secret_path_pattern: "**", permissions: ["read"] }] }],
+            }),
+        ).rejects.toThrow('unknown agent "ghost"');
+    });
+});
+
+describe("loadIntoEnv", () => {
+    function routeSecrets(values: Record<string, string>) {
+        return routeFetch((req) => {
+            const key = req.url.pathname.split("/secrets/")[1];
+            return key
+                ? { path: key, value: values[key] }
+                : { secrets: Object.keys(values).map((path) => ({ path })) };
+        });
+    }
+
+    it("sets missing variables and keeps existing ones unless override", async () => {
+        const client = clientFor(routeSecrets({ "svc/db-url": "postgres://x", "svc/port": "8080" }));
+        const target: Record<string, string | undefined> = { PORT: "3000" };
+
+        const result = await loadIntoEnv(client, "v-1", { prefix: "svc/", target });
+        expect(result).toEqual({ loaded: ["DB_URL"], skipped: ["PORT"] });
+        expect(target).toEqual({ PORT: "3000", DB_URL: "postgres://x" });
+
+        await loadIntoEnv(client, "v-1", { prefix: "svc/", target, override: true });
+        expect(target.PORT).toBe("8080");
+    });
+
+    it("throws instead of loading a partial environment", async () => {
+        const client = clientFor(
+            routeFetch((req) =>
+                req.url.pathname.includes("/secrets/") ? undefined : { secrets: [{ path: "a" }] },
+            ),
+        );
+        const target: Record<string, string | undefined> = {};
+        await expect(loadIntoEnv(client, "v-1", { target })).rejects.toThrow("a (not_found)");
+        expect(target).toEqual({});
+    });
+});
+
+describe("resolveSecrets", () => {
+    const VAULT_ID = "11111111-2222-3333-4444-555555555555";
+
+    function routeVault(values: Record<string, string>) {
+        return routeFetch((req) => {
+            const key = req.url.pathname.split("/secrets/")[1];
+            if (!key) return { vaults: [{ id: VAULT_ID, name: "prod" }] };
+            if (!(key in values)) return undefined;
+            const version = Number(req.url.searchParams.get("version") ?? 1);
+            return { path: key, value: values[key], version };
+        });
+    }
+
+    it("replaces whole-string and embedded references, fetching each secret once", async () => {
+        const fetchMock = routeVault({
+            "db/creds": JSON.stringify({ user: "app", password: "s3cret", port: 5432 }),
+            "stripe/key": "sk_live",
+        });
+        const client = clientFor(fetchMock);
+
+        const config = await resolveSecrets(client, {
+            db: {
+                password: "1claw://prod/db/creds?pointer=/password",
+                port: "{{ 1claw:prod/db/creds?pointer=/port }}",
+                url: "postgres://{{1claw:prod/db/creds?pointer=/user}}@db:5432",
+            },
+            keys: [`1claw://${VAULT_ID}/stripe/key`],
+            retries: 3,
+        });
+
+        expect(config).toEqual({
+            db: { password: "s3cret", port: 5432, url: "postgres://app@db:5432" },
+            keys: ["sk_live"],
+            retries: 3,
+        });
+        const urls = fetchMock.mock.calls.map(([url]) => new URL(String(url)).pathname);
+        expect(urls.filter((u) => u.endsWith("/vaults"))).toHaveLength(1);
+        expect(urls.filter((u) => u.endsWith("/db/creds"))).toHaveLength(1);
+    });
+
+    it("sends a pinned version as a query parameter", async () => {
+        const fetchMock = routeVault({ "stripe/key": "sk_old" });
+        const client = clientFor(fetchMock);
+
+        const value = await resolveSecrets(client, `1claw://${VAULT_ID}/stripe/key#3`);
+        expect(value).toBe("sk_old");
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const url = new URL(String(fetchMock.mock.calls[0][0]));
+        expect(url.searchParams.get("version")).toBe("3");
+    });
+
+    it("keeps a __proto__ key from parsed JSON as an own key", async () => {
+        const fetchMock = routeVault({ "stripe/key": "sk_live" });
+        const client = clientFor(fetchMock);
+
+        const parsed = JSON.parse(
+            `{"__proto__": {"key": "1claw://${VAULT_ID}/stripe/key"}}`,
+        );
+        const config = (await resolveSecrets(client, parsed)) as Record<string, unknown>;
+
+        expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+        expect(Object.keys(config)).toEqual(["__proto__"]);
+        expect(Object.getOwnPropertyDescriptor(config, "__proto__")?.value).toEqual({
+            key: "sk_live",
+        });
+    });
+
+    it("reports every unresolved reference in one error", async () => {
+        const client = clientFor(routeVault({ "plain": "not json" }));
+
+        const err = await resolveSecrets(client, {
+            a: "1claw://prod/missing",
+            b: ["1claw://staging/x"],
+            c: "1claw://prod/plain?pointer=/field",
+            d: "1claw://prod",
+            e: "1claw://prod/100%zz",
+        }).catch((e: unknown) => e);
+
+        expect(err).toBeInstanceOf(UnresolvedReferencesError);
+        const refs = (err as UnresolvedReferencesError).references;
+        expect(refs.map((r) => r.location).sort()).toEqual(["/a", "/b/0", "/c", "/d", "/e"]);
+        expect(refs.find((r) => r.location === "/b/0")!.reason).toBe('unknown vault "staging"');
+        expect(refs.find((r) => r.location === "/d")!.reason).toBe("malformed reference");
+        expect(refs.find((r) => r.location === "/e")!.reason).toBe("malformed reference");
+    });
+
+    it("returns input without references untouched and without requests", async () => {
+        const fetchMock = routeVault({});
+        const client = clientFor(fetchMock);
+        const input = { name: "svc", port: 8080 };
+        expect(await resolveSecrets(client, input)).toBe(input);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
+
+describe("RotationEngine", () => {
+    const NOW = Date.parse("2026-06-01T00:00:00Z");
+    const policy = { rotator: "test", interval: "30d" };
+
+    /** Route by "METHOD path"; record PUT bodies. */
+    function routeRotation(routes: Record<string, unknown>) {
+        const puts: Record<string, unknown>[] = [];
+        const fetchMock = routeFetch((req) => {
+            if (req.method === "PUT") puts.push(JSON.parse(req.init!.body as string));
+            return routes[req.route];
+        });
+        return { client: clientFor(fetchMock), fetchMock, puts };
+    }
+
+    const current = {
+        path: "svc/token",
+        type: "api_key",
+        value: "old",
+        version: 1,
+        metadata: { owner: "ops", [ROTATION_METADATA_KEY]: policy },
+        created_at: "2026-01-01T00:00:00Z",
+    };
+
+    it("parses durations", () => {
+        expect(parseDuration("1h30m")).toBe(5_400_000);
+        expect(parseDuration("30d")).toBe(2_592_000_000);
+        expect(parseDuration(250)).toBe(250);
+        expect(() => parseDuration("30 days")).toThrow(ValidationError);
+    });
+
+    it("runs generate → update → verify → commit → revoke", async () => {
+        const { client, puts } = routeRotation({
+            "GET /v1/vaults/v-1/secrets/svc/token": current,
+            "PUT /v1/vaults/v-1/secrets/svc/token": { id: "s", path: "svc/token", version: 2 },
+        });
+        const steps: string[] = [];
+        const rotator: Rotator = {
+            name: "test",
+            generate: async () => (steps.push("generate"), "new"),
+            update: async (_ctx, v) => void steps.push(`update:${v}`),
+            verify: async () => (steps.push("verify"), true),
+            revoke: async (_ctx, old) => void steps.push(`revoke:${old}`),
+        };
+        const engine = new RotationEngine(client, [rotator], () => NOW);
+
+        const result = await engine.rotate("v-1", "svc/token");
+        expect(result).toEqual({ vaultId: "v-1", path: "svc/token", rotator: "test", status: "rotated", version: 2 });
+        expect(steps).toEqual(["generate", "update:new", "verify", "revoke:old"]);
+        expect(puts[0]).toMatchObject({
+            type: "api_key",
+            value: "new",
+            metadata: {
+                owner: "ops",
+                [ROTATION_METADATA_KEY]: { ...policy, last_rotated_at: "2026-06-01T00:00:00.000Z" },
+            },
+        });
+    });
+
+    it("rolls back and keeps the stored secret when verification fails", async () => {
+        const { client, puts } = routeRotation({ "GET /v1/vaults/v-1/secrets/svc/token": current });
+        const rollback = vi.fn(async () => {});
+        const revoke = vi.fn(async () => {});
+        const engine = new RotationEngine(client, [
+            { name: "test", generate: async () => "new", verify: async () => false, rollback, revoke },
+        ]);
+
+        const result = await engine.rotate("v-1", "svc/token");
+        expect(result).toMatchObject({ status: "failed", stage: "verify", rolledBack: true });
+        expect(rollback).toHaveBeenCalledWith(expect.anything(), "new");
+        expect(revoke).not.toHaveBeenCalled();
+        expect(puts).toHaveLength(0);
+    });
+
+    it("finds due secrets from list metadata and rotates them on a schedule", async () => {
+        const { client } = routeRotation({
+            "GET /v1/vaults/v-1/secrets": {
+                secrets: [
+                    { ...current, path: "due" },
+                    {
+                        ...current,
+                        path: "recent",
+                        metadata: { [ROTATION_METADATA_KEY]: { ...policy, last_rotated_at: "2026-05-20T00:00:00Z" } },
+                    },
+                    { ...current, path: "manual", metadata: {} },
+                ],
+            },
+            "GET /v1/vaults/v-1/secrets/due": { ...current, path: "due" },
+            "PUT /v1/vaults/v-1/secrets/due": { id: "s", path: "due", version: 2 },
+        });
+        const engine = new RotationEngine(client, [randomTokenRotator({}, "test")], () => NOW);
+
+        const due = await engine.findDue("v-1");
+        expect(due).toEqual([{ vaultId: "v-1", path: "due", policy, dueAt: "2026-01-31T00:00:00.000Z" }]);
+
+        const onResult = vi.fn();
+        const scheduler = engine.start(["v-1"], { onResult, checkIntervalMs: 60_000 });
+        const results = await scheduler.runOnce();
+        scheduler.stop();
+        expect(results).toHaveLength(1);
+        expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ path: "due", status: "rotated" }));
+    });
+
+    it("agentKeyRotator stores the key returned by agents.rotateKey", async () => {
+        const agentPolicy = { rotator: "agent-api-key", interval: "7d", config: { agent_id: "a-1" } };
+        const { client, puts } = routeRotation({
+            "GET /v1/vaults/v-1/secrets/agents/a-1": {
+                ...current,
+                path: "agents/a-1",
+                metadata: { [ROTATION_METADATA_KEY]: agentPolicy },
+            },
+            "POST /v1/agents/a-1/rotate-key": { api_key: "ocv_new" },
+            "PUT /v1/vaults/v-1/secrets/agents/a-1": { id: "s", path: "agents/a-1", version: 2 },
+        });
+        const result = await new RotationEngine(client, [agentKeyRotator()]).rotate("v-1", "agents/a-1");
+        expect(result.status).toBe("rotated");
+        expect(puts[0].value).toBe("ocv_new");
+    });
+
+    it("keeps the secret's expiry, read limit and rotation policy on commit", async () => {
+        const { client, puts } = routeRotation({
+            "GET /v1/vaults/v-1/secrets/svc/token": {
+                ...current,
+                expires_at: "2027-01-01T00:00:00Z",
+                max_access_count: 50,
+            },
+            "PUT /v1/vaults/v-1/secrets/svc/token": { id: "s", path: "svc/token", version: 2 },
+        });
+        await new RotationEngine(client, [randomTokenRotator({}, "test")], () => NOW).rotate("v-1", "svc/token");
+
+        const stored = { ...policy, last_rotated_at: "2026-06-01T00:00:00.000Z" };
+        expect(puts[0]).toMatchObject({
+            expires_at: "2027-01-01T00:00:00Z",
+            max_access_count: 50,
+            rotation_policy: stored,
+            metadata: { [ROTATION_METADATA_KEY]: stored },
+        });
+    });
+
+    it("agentKeyRotator stores the new key before verifying it", async () => {
+        const agentPolicy = { rotator: "agent-api-key", interval: "7d", config: { agent_id: "a-1" } };
+        const { client, fetchMock, puts } = routeRotation({
+            "GET /v1/vaults/v-1/secrets/agents/a-1": {
+                ...current,
+                path: "agents/a-1",
+                metadata: { [ROTATION_METADATA_KEY]: agentPolicy },
+            },
+            "POST /v1/agents/a-1/rotate-key": { api_key: "ocv_new" },
+            "PUT /v1/vaults/v-1/secrets/agents/a-1": { id: "s", path: "agents/a-1", version: 2 },
+        });
+        const result = await new RotationEngine(client, [
+            agentKeyRotator({ baseUrl: "https://api.test", fetch: fetchMock, requestInit: { keepalive: true } }),
+        ]).rotate("v-1", "agents/a-1");
+
+        // The token exchange is not routed, so verification fails.
+        expect(result).toMatchObject({ status: "failed", stage: "verify", version: 2 });
+        expect(puts).toHaveLength(1);
+        expect(puts[0].value).toBe("ocv_new");
+        const routes = fetchMock.mock.calls.map(([url, init]) => `${init?.method} ${new URL(String(url)).pathname}`);
+        const probe = routes.indexOf("POST /v1/auth/agent-token");
+        expect(routes.indexOf("PUT /v1/vaults/v-1/secrets/agents/a-1")).toBeLessThan(probe);
+        expect(fetchMock.mock.calls[probe][1]).toMatchObject({ keepalive: true });
+    });
+
+    it("hands back an issued value that could not be stored", async () => {
+        const agentPolicy = { rotator: "agent-api-key", interval: "7d", config: { agent_id: "a-1" } };
+        const { client, puts } = routeRotation({
+            "GET /v1/vaults/v-1/secrets/agents/a-1": {
+                ...current,
+                path: "agents/a-1",
+                metadata: { [ROTATION_METADATA_KEY]: agentPolicy },
+            },
+            "POST /v1/agents/a-1/rotate-key": { api_key: "ocv_new" },
+        });
+        const result = await new RotationEngine(client, [agentKeyRotator()]).rotate("v-1", "agents/a-1");
+
+        expect(result).toMatchObject({ status: "failed", stage: "commit" });
+        expect(puts).toHaveLength(3);
+        expect(result.unsavedValue?.reveal()).toBe("ocv_new");
+        expect(JSON.stringify(result)).not.toContain("ocv_new");
+    });
+
+    it("reports an invalid interval against its secret without stopping the scan", async () => {
+        const { client } = routeRotation({
+            "GET /v1/vaults/v-1/secrets": {
+                secrets: [
+                    { ...current, path: "broken", metadata: { [ROTATION_METADATA_KEY]: { ...policy, interval: "monthly" } } },
+                    { ...current, path: "due" },
+                ],
+            },
+            "GET /v1/vaults/v-1/secrets/due": { ...current, path: "due" },
+            "PUT /v1/vaults/v-1/secrets/due": { id: "s", path: "due", version: 2 },
+        });
+        const engine = new RotationEngine(client, [randomTokenRotator({}, "test")], () => NOW);
+
+        const due = await engine.findDue("v-1");
+        expect(due.map((d) => [d.path, d.error !== undefined])).toEqual([
+            ["broken", true],
+            ["due", false],
+        ]);
+
+        const results = await engine.rotateDue("v-1");
+        expect(results).toEqual([
+            expect.objectContaining({ path: "broken", status: "failed", stage: "read" }),
+            expect.objectContaining({ path: "due", status: "rotated" }),
+        ]);
+    });
+
+    it("throws a typed OneclawError when the vault cannot be listed", async () => {
+        const { client } = routeRotation({});
+        const err = await new RotationEngine(client, []).findDue("v-1").catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(OneclawError);
+        expect(err).toMatchObject({ status: 404, type: "not_found" });
+    });
+});
+
+describe("reports.expiring", () => {
+    const NOW = Date.parse("2026-06-01T00:00:00Z");
+    const inDays = (days: number) => new Date(NOW + days * 86_400_000).toISOString();
+
+
+    const routes: Record<string, unknown> = {
+        "GET /v1/vaults": { vaults: [{ id: "v-1", name: "prod" }, { id: "v-2", name: "dev" }] },
+        "GET /v1/vaults/v-1/secrets": {
+            secrets: [
+                { id: "s-1", path: "db/password", expires_at: inDays(3) },
+                { id: "s-2", path: "api/token", expires_at: inDays(60) },
+                { id: "s-3", path: "no-expiry" },
+            ],
+        },
+        "GET /v1/vaults/v-1/policies": {
+            policies: [
+                { id: "p-1", secret_path_pattern: "db/**", principal_type: "agent", principal_id: "a-1", expires_at: inDays(-1) },
+            ],
+        },
+        "GET /v1/vaults/v-2/secrets": { secrets: [] },
+        "GET /v1/agents": {
+            agents: [
+                { id: "a-1", name: "deployer", is_active: true, expires_at: inDays(10) },
+                { id: "a-2", name: "retired", is_active: false, expires_at: inDays(1) },
+            ],
+        },
+        "GET /v1/auth/api-keys": {
+            keys: [{ id: "k-1", name: "ci", key_prefix: "1ck_ab", is_active: true, expires_at: inDays(7) }],
+        },
+        "GET /v1/shares/outbound": {
+            shares: [{ id: "sh-1", recipient_type: "external_email", recipient_email: "a@b.co", expires_at: inDays(2) }],
+        },
+    };
+
+    it("lists items inside the window, grouped by owner and sorted by expiry", async () => {
+        const client = clientFor(routeFetch(routes, 403));
+        const { data } = await new ReportsResource(client, () => NOW).expiring({ within: "14d" });
+
+        expect(data!.items.map((i) => [i.kind, i.name, i.owner])).toEqual([
+            ["grant", "prod/db/**", "agent:deployer"],
+            ["share", "a@b.co", "self"],
+            ["secret", "db/password", "vault:prod"],
+            ["api_key", "ci (1ck_ab…)", "self"],
+            ["agent", "deployer", "agent:deployer"],
+        ]);
+        expect(data!.items[0]).toMatchObject({ expired: true, expiresInMs: -86_400_000, vaultId: "v-1" });
+        expect(data!.groups.map((g) => [g.owner, g.items.length])).toEqual([
+            ["agent:deployer", 2],
+            ["self", 2],
+            ["vault:prod", 1],
+        ]);
+        expect(data!.errors).toEqual([
+            { source: "vault:dev/grants", message: expect.any(String) },
+        ]);
+        expect(sortExpiringItems(data!.items, "kind").map((i) => i.kind)).toEqual([
+            "agent", "api_key", "grant", "secret", "share",
+        ]);
+    });
+
+    it("filters by kind and drops expired items on request", async () => {
+        const client = clientFor(routeFetch(routes, 403));
+        const { data } = await new ReportsResource(client, () => NOW).expiring({
+            within: "90d",
+            kinds: ["secret", "grant"],
+            vaultIds: ["v-1"],
+            includeExpired: false,
+        });
+        expect(data!.items.map((i) => i.name)).toEqual(["db/password", "api/token"]);
+        expect(data!.errors).toEqual([]);
+    });
+
+    it("records sources that throw instead of failing the report", async () => {
+        const client = clientFor(
+            routeFetch((req) => {
+                if (req.url.pathname === "/v1/auth/api-keys") throw new TypeError("fetch failed");
+                return routes[req.route];
+            }, 403),
+        );
+        const { data, error } = await new ReportsResource(client, () => NOW).expiring({
+            kinds: ["api_key", "share"],
+        });
+
+        expect(error).toBeNull();
+        expect(data!.items.map((i) => i.kind)).toEqual(["share"]);
+        expect(data!.errors).toEqual([{ source: "api_keys", message: "fetch failed" }]);
+    });
+
+    it("renders JSON and Markdown", async () => {
+        const client = clientFor(routeFetch(routes, 403));
+        const { data } = await new ReportsResource(client, () => NOW).expiring({ kinds: ["grant", "agent"], vaultIds: ["v-1"] });
+
+        expect(JSON.parse(renderExpiringReport(data!, "json"))).toEqual(data);
+        const md = renderExpiringReport(data!, "markdown");
+        expect(md).toContain("2 item(s) expiring within 14d.");
+        expect(md).toContain("## agent:deployer");
+        expect(md).toContain("| Grant | `prod/db/**` |");
+        expect(md).toContain("**expired 1d ago**");
+        expect(md).toContain("| Agent | `deployer` | 2026-06-11T00:00:00.000Z | 10d |");
+    });
+});
+
 describe("createClient", () => {
     it("returns an OneclawClient instance", () => {
         globalThis.fetch = mockFetch(200, {});
@@ -8,6 +8,9 @@ import {
     RateLimitError,
     ValidationError,
     ServerError,
+    TimeoutError,
+    PolicyDeniedError,
+    UnresolvedReferencesError,
     errorFromResponse,
 } from "../core/errors";
 
@@ -65,6 +68,36 @@ describe("Error classes", () => {
         expect(err.fields).toEqual({ name: "required" });
     });
 
+    it("TimeoutError carries the deadline", () => {
+        const err = new TimeoutError("timed out", 2000);
+        expect(err.status).toBe(0);
+        expect(err.type).toBe("timeout");
+        expect(err.timeoutMs).toBe(2000);
+        expect(err).toBeInstanceOf(OneclawError);
+    });
+
+    it("PolicyDeniedError carries the decision", () => {
+        const decision = { allowed: false, reason: "no grant" };
+        const err = new PolicyDeniedError(decision);
+        expect(err.status).toBe(403);
+        expect(err.type).toBe("policy_denied");
+        expect(err.message).toBe("no grant");
+        expect(err.decision).toBe(decision);
+        expect(err).toBeInstanceOf(OneclawError);
+    });
+
+    it("UnresolvedReferencesError lists every reference", () => {
+        const err = new UnresolvedReferencesError([
+            { reference: "1claw://prod/a", location: "/db/password", reason: "Secret not found" },
+            { reference: "1claw://x", location: "", reason: "malformed reference" },
+        ]);
+        expect(err.status).toBe(0);
+        expect(err.type).toBe("unresolved_references");
+        expect(err.references).toHaveLength(2);
+        expect(err.message).toContain("/db/password: 1claw://prod/a — Secret not found");
+        expect(err.message).toContain("/: 1claw://x — malformed reference");
+    });
+
     it("ServerError defaults to 500", () => {
         const err = new ServerError();
         expect(err.status).toBe(500);
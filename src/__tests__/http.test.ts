@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { HttpClient } from "../core/http";
-import { PaymentRequiredError } from "../core/errors";
+import { PaymentRequiredError, TimeoutError } from "../core/errors";
+import type { Middleware } from "../core/middleware";
+import type { AuditSink, AuditSinkEvent } from "../plugins";
+import { BatchingAuditSink } from "../plugins/audit-sinks";
 
 function mockFetch(
     status: number,
@@ -295,4 +298,694 @@ describe("HttpClient", () => {
             );
         });
     });
+    describe("retries", () => {
+        function sequence(...statuses: number[]) {
+            const fetcher = vi.fn();
+            for (const status of statuses) {
+                fetcher.mockResolvedValueOnce({
+                    ok: status >= 200 && status < 300,
+                    status,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({ status }),
+                } as unknown as Response);
+            }
+            return fetcher;
+        }
+
+        const retry = { maxAttempts: 3, baseDelayMs: 0, jitter: false };
+
+        it("sends a single attempt when retry is not configured", async () => {
+            const fetcher = sequence(503, 200);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t" });
+            const res = await http.request("GET", "/v1/vaults");
+
+            expect(fetcher).toHaveBeenCalledOnce();
+            expect(res.error?.type).toBe("server_error");
+        });
+
+        it("retries idempotent requests on retryable statuses", async () => {
+            const fetcher = sequence(503, 429, 200);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            const res = await http.request("GET", "/v1/vaults");
+
+            expect(fetcher).toHaveBeenCalledTimes(3);
+            expect(res.data).toEqual({ status: 200 });
+        });
+
+        it("gives up after maxAttempts", async () => {
+            const fetcher = sequence(500, 500, 500, 200);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            await expect(http.requestOrThrow("GET", "/v1/vaults")).rejects.toThrow();
+            expect(fetcher).toHaveBeenCalledTimes(3);
+        });
+
+        it("does not retry non-retryable statuses", async () => {
+            const fetcher = sequence(404, 200);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            await http.request("GET", "/v1/vaults/missing");
+            expect(fetcher).toHaveBeenCalledOnce();
+        });
+
+        it("does not retry POST without an Idempotency-Key", async () => {
+            const fetcher = sequence(503, 201);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            await http.request("POST", "/v1/vaults", { body: { name: "x" } });
+            expect(fetcher).toHaveBeenCalledOnce();
+        });
+
+        it("retries POST when an Idempotency-Key is present", async () => {
+            const fetcher = sequence(503, 201);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            const res = await http.request("POST", "/v1/agents/a/transactions", {
+                body: {},
+                headers: { "Idempotency-Key": "k-1" },
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            expect(res.meta?.status).toBe(201);
+        });
+
+        it("retries network errors", async () => {
+            const fetcher = vi
+                .fn()
+                .mockRejectedValueOnce(new TypeError("fetch failed"))
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({ ok: true }),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            const res = await http.request("GET", "/v1/vaults");
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            expect(res.data).toEqual({ ok: true });
+        });
+
+        it("rethrows network errors when retryOnNetworkError is false", async () => {
+            globalThis.fetch = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                retry: { ...retry, retryOnNetworkError: false },
+            });
+            await expect(http.request("GET", "/v1/vaults")).rejects.toThrow("fetch failed");
+            expect(globalThis.fetch).toHaveBeenCalledOnce();
+        });
+
+        it("waits for Retry-After before retrying", async () => {
+            vi.useFakeTimers();
+            const fetcher = vi
+                .fn()
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 429,
+                    headers: new Headers({ "Retry-After": "2" }),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response)
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            const pending = http.request("GET", "/v1/vaults");
+
+            await vi.advanceTimersByTimeAsync(1_999);
+            expect(fetcher).toHaveBeenCalledOnce();
+            await vi.advanceTimersByTimeAsync(1);
+            await pending;
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            vi.useRealTimers();
+        });
+
+        it("cancels the body of a response it discards before retrying", async () => {
+            const cancel = vi.fn().mockResolvedValue(undefined);
+            const fetcher = vi
+                .fn()
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 503,
+                    headers: new Headers(),
+                    body: { cancel },
+                    json: () => Promise.resolve({}),
+                } as unknown as Response)
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            await http.request("GET", "/v1/vaults");
+            expect(cancel).toHaveBeenCalledOnce();
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        it("caps Retry-After at maxDelayMs", async () => {
+            vi.useFakeTimers();
+            const fetcher = vi
+                .fn()
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 503,
+                    headers: new Headers({ "Retry-After": "86400" }),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response)
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                retry: { ...retry, maxDelayMs: 1_000 },
+            });
+            const pending = http.request("GET", "/v1/vaults");
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            await pending;
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            vi.useRealTimers();
+        });
+
+        it("does not retry a request after an x402 payment was sent", async () => {
+            const signer = {
+                getAddress: vi.fn().mockResolvedValue("0xsigner"),
+                signPayment: vi.fn().mockResolvedValue("sig-bytes"),
+            };
+            const fetcher = vi
+                .fn()
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 402,
+                    headers: new Headers(),
+                    json: () =>
+                        Promise.resolve({
+                            x402Version: 1,
+                            accepts: [{ scheme: "exact", network: "base", price: "0.001" }],
+                        }),
+                } as unknown as Response)
+                .mockResolvedValue({
+                    ok: false,
+                    status: 503,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({}),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                retry,
+                x402Signer: signer,
+                maxAutoPayUsd: 1,
+            });
+            const res = await http.request("GET", "/v1/vaults/v1/secrets/key");
+
+            expect(res.meta?.status).toBe(503);
+            expect(signer.signPayment).toHaveBeenCalledOnce();
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        it("does not retry a request that carries an X-PAYMENT header", async () => {
+            const fetcher = sequence(503, 200);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t", retry });
+            await http.request("GET", "/v1/vaults", { headers: { "X-PAYMENT": "p" } });
+            expect(fetcher).toHaveBeenCalledOnce();
+        });
+    });
+    describe("timeouts and cancellation", () => {
+        function hangingFetch() {
+            return vi.fn().mockImplementation(
+                (_url: string, init: RequestInit) =>
+                    new Promise((_, reject) => {
+                        init.signal?.addEventListener("abort", () =>
+                            reject(init.signal!.reason),
+                        );
+                    }),
+            );
+        }
+
+        it("rejects with TimeoutError when the client deadline elapses", async () => {
+            globalThis.fetch = hangingFetch();
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                timeoutMs: 20,
+            });
+
+            const err = await http.request("GET", "/v1/vaults").catch((e) => e);
+            expect(err).toBeInstanceOf(TimeoutError);
+            expect(err.timeoutMs).toBe(20);
+        });
+
+        it("per-call timeoutMs overrides the client default", async () => {
+            globalThis.fetch = hangingFetch();
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                timeoutMs: 60_000,
+            });
+
+            await expect(
+                http.request("GET", "/v1/vaults", { timeoutMs: 10 }),
+            ).rejects.toThrow(/timed out after 10ms/);
+        });
+
+        it("aborts when the caller's signal fires", async () => {
+            globalThis.fetch = hangingFetch();
+            const controller = new AbortController();
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t" });
+            const pending = http.request("GET", "/v1/vaults", {
+                signal: controller.signal,
+            });
+            controller.abort();
+
+            const err = await pending.catch((e) => e);
+            expect(err).not.toBeInstanceOf(TimeoutError);
+            expect(err.name).toBe("AbortError");
+        });
+
+        it("times out a response body that never finishes", async () => {
+            globalThis.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: () => new Promise(() => {}),
+            } as unknown as Response);
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                timeoutMs: 20,
+            });
+
+            const err = await http.request("GET", "/v1/vaults").catch((e) => e);
+            expect(err).toBeInstanceOf(TimeoutError);
+            expect(err.timeoutMs).toBe(20);
+        });
+
+        it("does not call fetch when the signal is already aborted", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const controller = new AbortController();
+            controller.abort();
+
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t" });
+            await expect(
+                http.request("GET", "/v1/vaults", { signal: controller.signal }),
+            ).rejects.toThrow();
+            expect(fetcher).not.toHaveBeenCalled();
+        });
+
+        it("retries timed-out attempts when retries are enabled", async () => {
+            const fetcher = vi
+                .fn()
+                .mockImplementationOnce(
+                    (_url: string, init: RequestInit) =>
+                        new Promise((_, reject) => {
+                            init.signal?.addEventListener("abort", () =>
+                                reject(init.signal!.reason),
+                            );
+                        }),
+                )
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: () => Promise.resolve({ ok: true }),
+                } as unknown as Response);
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                timeoutMs: 10,
+                retry: { maxAttempts: 2, baseDelayMs: 0, jitter: false },
+            });
+            const res = await http.request("GET", "/v1/vaults");
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            expect(res.data).toEqual({ ok: true });
+        });
+    });
+    describe("middleware", () => {
+        it("runs custom middleware after the built-ins with auth applied", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const seen: string[] = [];
+            const tracing: Middleware = {
+                name: "tracing",
+                async handle(ctx, next) {
+                    seen.push(ctx.init.headers["Authorization"]);
+                    ctx.init.headers["traceparent"] = "00-abc-def-01";
+                    return next(ctx);
+                },
+            };
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                middleware: [tracing],
+            });
+            await http.request("GET", "/v1/vaults");
+
+            expect(seen).toEqual(["Bearer t"]);
+            expect(fetcher.mock.calls[0][1].headers["traceparent"]).toBe("00-abc-def-01");
+        });
+
+        it("can short-circuit without calling fetch", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const stub: Middleware = {
+                name: "stub",
+                handle: async () =>
+                    new Response(JSON.stringify({ vaults: ["cached"] }), { status: 200 }),
+            };
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                middleware: [stub],
+            });
+            const res = await http.request<{ vaults: string[] }>("GET", "/v1/vaults");
+
+            expect(fetcher).not.toHaveBeenCalled();
+            expect(res.data?.vaults).toEqual(["cached"]);
+        });
+
+        it("maps error responses returned by middleware into envelopes", async () => {
+            globalThis.fetch = mockFetch(200, {});
+            const deny: Middleware = {
+                name: "deny",
+                handle: async () =>
+                    new Response(JSON.stringify({ detail: "nope" }), { status: 404 }),
+            };
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                middleware: [deny],
+            });
+            const res = await http.request("GET", "/v1/vaults/x");
+            expect(res.error?.type).toBe("not_found");
+            expect(res.meta?.status).toBe(404);
+        });
+
+        it("function form can remove built-ins", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                middleware: (defaults) => defaults.filter((m) => m.name !== "auth"),
+            });
+            await http.request("GET", "/v1/vaults");
+
+            expect(fetcher.mock.calls[0][1].headers["Authorization"]).toBeUndefined();
+        });
+
+        it("function form receives built-ins in order", () => {
+            let names: string[] = [];
+            new HttpClient({
+                baseUrl: "https://api.test",
+                middleware: (defaults) => {
+                    names = defaults.map((m) => m.name);
+                    return defaults;
+                },
+            });
+            expect(names).toEqual(["errors", "retry", "auth", "x402"]);
+        });
+
+        it("errors thrown by custom middleware propagate", async () => {
+            globalThis.fetch = mockFetch(200, {});
+            const boom: Middleware = {
+                name: "boom",
+                handle: async () => {
+                    throw new Error("signing failed");
+                },
+            };
+
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                middleware: [boom],
+            });
+            await expect(http.request("GET", "/v1/vaults")).rejects.toThrow("signing failed");
+        });
+    });
+
+    describe("audit context", () => {
+        it("sends reason, correlation id and tags as headers", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t" });
+            await http.request("GET", "/v1/vaults", {
+                audit: {
+                    reason: "rotate creds — ticket #42",
+                    correlationId: "trace-1",
+                    tags: { task: "deploy", env: "prod" },
+                },
+            });
+
+            const headers = fetcher.mock.calls[0][1].headers;
+            expect(decodeURIComponent(headers["X-1Claw-Audit-Reason"])).toBe(
+                "rotate creds — ticket #42",
+            );
+            expect(headers["X-1Claw-Correlation-Id"]).toBe("trace-1");
+            expect(headers["X-1Claw-Audit-Tags"]).toBe("task=deploy,env=prod");
+        });
+
+        it("adds audit headers to raw requests", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const http = new HttpClient({ baseUrl: "https://api.test" });
+            await http.rawFetch(
+                "https://api.test/v1/x",
+                { method: "GET", headers: { "X-PAYMENT": "p" } },
+                { audit: { correlationId: "trace-2" } },
+            );
+
+            const headers = fetcher.mock.calls[0][1].headers;
+            expect(headers["X-PAYMENT"]).toBe("p");
+            expect(headers["X-1Claw-Correlation-Id"]).toBe("trace-2");
+        });
+
+        it("sends no audit headers by default", async () => {
+            const fetcher = mockFetch(200, {});
+            globalThis.fetch = fetcher;
+            const http = new HttpClient({ baseUrl: "https://api.test", token: "t" });
+            await http.request("GET", "/v1/vaults");
+            const names = Object.keys(fetcher.mock.calls[0][1].headers);
+            expect(names.some((h) => h.startsWith("X-1Claw"))).toBe(false);
+        });
+    });
+
+    describe("resolvePrincipal", () => {
+        it("uses the JWT subject for user tokens", async () => {
+            const payload = btoa(JSON.stringify({ sub: "user-42" }));
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: `h.${payload}.s`,
+            });
+            await expect(http.resolvePrincipal()).resolves.toEqual({
+                principalId: "user-42",
+                principalType: "user",
+            });
+        });
+
+        it("uses the agent id for agent credentials", async () => {
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                agentId: "agent-7",
+                apiKey: "ocv_k",
+            });
+            vi.spyOn(http as unknown as { ensureToken(): Promise<void> }, "ensureToken")
+                .mockResolvedValue();
+            await expect(http.resolvePrincipal()).resolves.toEqual({
+                principalId: "agent-7",
+                principalType: "agent",
+            });
+        });
+    });
+
+    describe("audit sink", () => {
+        function recordingSink() {
+            const events: AuditSinkEvent[] = [];
+            const sink: AuditSink = {
+                emit: vi.fn(async (e: AuditSinkEvent) => {
+                    events.push(e);
+                }),
+                flush: vi.fn(async () => {}),
+            };
+            return { sink, events };
+        }
+
+        it("emits an event for successful requests", async () => {
+            globalThis.fetch = mockFetch(200, {});
+            const { sink, events } = recordingSink();
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                plugins: { auditSink: sink },
+            });
+            await http.request("GET", "/v1/vaults", { query: { limit: 5 } });
+            await http.flush();
+
+            expect(events).toHaveLength(1);
+            expect(events[0]).toMatchObject({
+                method: "GET",
+                path: "/v1/vaults",
+                statusCode: 200,
+                success: true,
+            });
+            expect(events[0].durationMs).toBeGreaterThanOrEqual(0);
+            expect(sink.flush).toHaveBeenCalledOnce();
+        });
+
+        it("emits failures with status and error message", async () => {
+            globalThis.fetch = mockFetch(404, { detail: "Vault not found" });
+            const { sink, events } = recordingSink();
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                plugins: { auditSink: sink },
+            });
+            await http.request("GET", "/v1/vaults/x");
+            await http.flush();
+
+            expect(events[0]).toMatchObject({
+                statusCode: 404,
+                success: false,
+                error: "Vault not found",
+            });
+        });
+
+        it("a throwing sink never breaks the request", async () => {
+            globalThis.fetch = mockFetch(200, { ok: true });
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                token: "t",
+                plugins: {
+                    auditSink: {
+                        emit: () => {
+                            throw new Error("sink down");
+                        },
+                    },
+                },
+            });
+            const res = await http.request<{ ok: boolean }>("GET", "/v1/vaults");
+            expect(res.data?.ok).toBe(true);
+            await expect(http.flush()).resolves.toBeUndefined();
+        });
+
+        it("audits raw requests that bypass the pipeline", async () => {
+            globalThis.fetch = mockFetch(402, {});
+            const { sink, events } = recordingSink();
+            const http = new HttpClient({
+                baseUrl: "https://api.test",
+                plugins: { auditSink: sink },
+            });
+            await http.rawFetch("https://api.test/v1/vaults/v/secrets/k", { method: "GET" });
+            await http.flush();
+
+            expect(events[0]).toMatchObject({
+                path: "/v1/vaults/v/secrets/k",
+                statusCode: 402,
+                success: false,
+            });
+        });
+
+        it("is the outermost built-in when configured", () => {
+            let names: string[] = [];
+            new HttpClient({
+                baseUrl: "https://api.test",
+                plugins: { auditSink: recordingSink().sink },
+                middleware: (defaults) => {
+                    names = defaults.map((m) => m.name);
+                    return defaults;
+                },
+            });
+            expect(names[0]).toBe("audit");
+        });
+    });
+});
+
+describe("BatchingAuditSink", () => {
+    const event = (path: string): AuditSinkEvent => ({
+        timestamp: new Date(0).toISOString(),
+        method: "GET",
+        path,
+        statusCode: 200,
+        durationMs: 1,
+        success: true,
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("forwards a batch once maxBatchSize is reached", async () => {
+        const emitBatch = vi.fn(async (_events: AuditSinkEvent[]) => {});
+        const sink = new BatchingAuditSink(
+            { emit: async () => {}, emitBatch },
+            { maxBatchSize: 2 },
+        );
+        await sink.emit(event("/a"));
+        expect(emitBatch).not.toHaveBeenCalled();
+        await sink.emit(event("/b"));
+        await sink.flush();
+        expect(emitBatch).toHaveBeenCalledOnce();
+        expect(emitBatch.mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it("forwards buffered events after flushIntervalMs", async () => {
+        vi.useFakeTimers();
+        const emit = vi.fn(async () => {});
+        const sink = new BatchingAuditSink({ emit }, { flushIntervalMs: 1_000 });
+        await sink.emit(event("/a"));
+        expect(emit).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(emit).toHaveBeenCalledOnce();
+    });
+
+    it("flush drains the buffer and flushes the inner sink", async () => {
+        const emit = vi.fn(async () => {});
+        const flush = vi.fn(async () => {});
+        const sink = new BatchingAuditSink({ emit, flush });
+        await sink.emit(event("/a"));
+        await sink.emit(event("/b"));
+        await sink.flush();
+        expect(emit).toHaveBeenCalledTimes(2);
+        expect(flush).toHaveBeenCalledOnce();
+    });
 });
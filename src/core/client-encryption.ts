@@ -0,0 +1,118 @@
+import type { CryptoProvider } from "../plugins/crypto-provider";
+import type { OneclawResponse, SecretResponse } from "../types";
+import { toBase64, fromBase64 } from "../cmek";
+import { ClientEncryptionError } from "./errors";
+
+/**
+ * Metadata key under which the SDK records that a secret value was
+ * encrypted client-side by a `CryptoProvider`.
+ */
+export const CLIENT_ENCRYPTION_METADATA_KEY = "_1claw_client_encryption";
+
+/** Marker stored in secret metadata for client-side encrypted values. */
+export interface ClientEncryptionMarker {
+    /** Marker format version. */
+    version: 1;
+    /** `CryptoProvider.name`, or "custom" when the provider is unnamed. */
+    provider: string;
+    /** `CryptoProvider.keyId` at encryption time, if any. */
+    key_id?: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encrypt a secret value with the provider. Returns the base64
+ * ciphertext to upload and the metadata to store alongside it.
+ */
+export async function encryptSecretValue(
+    provider: CryptoProvider,
+    value: string,
+    metadata: Record<string, unknown> = {},
+): Promise<{ value: string; metadata: Record<string, unknown> }> {
+    const ciphertext = await provider.encrypt(encoder.encode(value));
+    const marker: ClientEncryptionMarker = {
+        version: 1,
+        provider: provider.name ?? "custom",
+    };
+    if (provider.keyId) marker.key_id = provider.keyId;
+    return {
+        value: toBase64(ciphertext),
+        metadata: { ...metadata, [CLIENT_ENCRYPTION_METADATA_KEY]: marker },
+    };
+}
+
+/** Read the client-side encryption marker from secret metadata, if any. */
+export function getEncryptionMarker(
+    metadata: Record<string, unknown> | undefined,
+): ClientEncryptionMarker | undefined {
+    const marker = metadata?.[CLIENT_ENCRYPTION_METADATA_KEY];
+    if (!marker || typeof marker !== "object") return undefined;
+    return marker as ClientEncryptionMarker;
+}
+
+/**
+ * Decrypt a value previously produced by `encryptSecretValue`.
+ * Throws `ClientEncryptionError` if the provider is missing, does not
+ * match the recorded provider/key, or decryption fails.
+ */
+export async function decryptSecretValue(
+    provider: CryptoProvider | undefined,
+    marker: ClientEncryptionMarker,
+    value: string,
+): Promise<string> {
+    const recorded = marker.key_id
+        ? `${marker.provider} (key ${marker.key_id})`
+        : marker.provider;
+
+    if (!provider) {
+        throw new ClientEncryptionError(
+            `Secret is client-side encrypted with ${recorded}; configure plugins.cryptoProvider to read it`,
+        );
+    }
+    if (provider.name && provider.name !== marker.provider) {
+        throw new ClientEncryptionError(
+            `Secret is client-side encrypted with ${recorded}, but the configured provider is ${provider.name}`,
+        );
+    }
+    if (marker.key_id && provider.keyId && provider.keyId !== marker.key_id) {
+        throw new ClientEncryptionError(
+            `Secret is client-side encrypted with ${recorded}, but the configured key is ${provider.keyId}`,
+        );
+    }
+
+    try {
+        const plaintext = await provider.decrypt(fromBase64(value));
+        return decoder.decode(plaintext);
+    } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new ClientEncryptionError(
+            `Failed to decrypt client-side encrypted secret: ${reason}`,
+        );
+    }
+}
+
+/**
+ * Decrypt the value in a secret envelope when its metadata carries the
+ * client-side encryption marker. Encryption failures become error
+ * envelopes so callers see them the same way as API errors.
+ */
+export async function decryptSecretResponse(
+    provider: CryptoProvider | undefined,
+    res: OneclawResponse<SecretResponse>,
+): Promise<OneclawResponse<SecretResponse>> {
+    const marker = getEncryptionMarker(res.data?.metadata);
+    if (!res.data || !marker) return res;
+    try {
+        const value = await decryptSecretValue(provider, marker, res.data.value);
+        return { ...res, data: { ...res.data, value } };
+    } catch (err) {
+        if (!(err instanceof ClientEncryptionError)) throw err;
+        return {
+            data: null,
+            error: { type: err.type, message: err.message },
+            meta: res.meta,
+        };
+    }
+}
@@ -1,5 +1,6 @@
 import type { OneclawClientConfig } from "../types";
 import { HttpClient } from "./http";
+import { SecretCache } from "./secret-cache";
 import { VaultResource } from "../resources/vault";
 import { SecretsResource } from "../resources/secrets";
 import { AccessResource } from "../resources/access";
@@ -13,6 +14,7 @@ import { AuthResource } from "../resources/auth";
 import { ApiKeysResource } from "../resources/api-keys";
 import { ChainsResource } from "../resources/chains";
 import { X402Resource } from "../resources/x402";
+import { ReportsResource } from "../resources/reports";
 
 /**
  * The main 1Claw SDK client. All API resources are exposed as
@@ -64,6 +66,8 @@ export class OneclawClient {
     readonly chains: ChainsResource;
     /** x402 payment protocol — inspect, pay, and verify micropayments. */
     readonly x402: X402Resource;
+    /** Reports — expiring secrets, grants, API keys, agents and shares. */
+    readonly reports: ReportsResource;
 
     constructor(config: OneclawClientConfig) {
         this.http = new HttpClient(config);
@@ -76,9 +80,13 @@ export class OneclawClient {
             }
         }
 
-        this.vault = new VaultResource(this.http);
-        this.secrets = new SecretsResource(this.http);
+        this.secrets = new SecretsResource(
+            this.http,
+            config.plugins,
+            config.cache ? new SecretCache(config.cache) : undefined,
+        );
         this.access = new AccessResource(this.http);
+        this.vault = new VaultResource(this.http, this.secrets, this.access);
         this.agents = new AgentsResource(this.http);
         this.sharing = new SharingResource(this.http);
         this.approvals = new ApprovalsResource(this.http);
@@ -88,7 +96,29 @@ export class OneclawClient {
         this.auth = new AuthResource(this.http);
         this.apiKeys = new ApiKeysResource(this.http);
         this.chains = new ChainsResource(this.http);
-        this.x402 = new X402Resource(this.http, config.x402Signer);
+        this.x402 = new X402Resource(
+            this.http,
+            config.x402Signer,
+            config.plugins,
+        );
+        this.reports = new ReportsResource(this);
+    }
+
+    /**
+     * Wait for pending audit events and flush `plugins.auditSink`.
+     * Safe to call repeatedly (e.g. before a serverless function returns).
+     */
+    async flush(): Promise<void> {
+        await this.http.flush();
+    }
+
+    /**
+     * Release client resources. Wipes cached secret values and flushes
+     * the audit sink; call once when the client is no longer needed.
+     */
+    async close(): Promise<void> {
+        this.secrets.clearCache();
+        await this.flush();
     }
 
     private autoAuthenticateUserKey(config: OneclawClientConfig): void {
@@ -0,0 +1,30 @@
+/**
+ * Map over `items` with at most `concurrency` calls in flight.
+ * Results keep the input order. Rejects on the first rejection; calls
+ * already started are allowed to settle but no new ones begin.
+ */
+export async function mapConcurrent<T, R>(
+    items: readonly T[],
+    concurrency: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    const limit = Math.max(1, Math.min(concurrency, items.length));
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (err) {
+                failed = true;
+                throw err;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: limit }, worker));
+    return results;
+}
@@ -0,0 +1,34 @@
+import { ValidationError } from "./errors";
+
+const UNITS: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000,
+};
+
+/**
+ * Parse a duration such as `"90s"`, `"12h"`, `"30d"` or `"1h30m"` into
+ * milliseconds. Numbers are taken as milliseconds. Throws
+ * `ValidationError` for anything else.
+ */
+export function parseDuration(value: string | number): number {
+    if (typeof value === "number") {
+        if (Number.isFinite(value) && value >= 0) return value;
+        throw new ValidationError(`Invalid duration: ${value}`);
+    }
+    const text = value.trim();
+    const pattern = /\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)/gy;
+    let total = 0;
+    let matched = 0;
+    for (const match of text.matchAll(pattern)) {
+        total += Number(match[1]) * UNITS[match[2]];
+        matched += match[0].length;
+    }
+    if (text === "" || matched !== text.length) {
+        throw new ValidationError(`Invalid duration: "${value}"`);
+    }
+    return total;
+}
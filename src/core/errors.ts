@@ -1,4 +1,6 @@
 import type { PaymentRequirement } from "../types";
+import type { PolicyDecision } from "../plugins/policy-engine";
+import { parseRetryAfter } from "./retry";
 
 /**
  * Base error class for all 1Claw SDK errors.
@@ -108,6 +110,108 @@ export class ValidationError extends OneclawError {
     }
 }
 
+/**
+ * Thrown when a request exceeds its `timeoutMs` deadline.
+ * Raised locally — the server may never have seen the request — so
+ * `status` is 0.
+ */
+export class TimeoutError extends OneclawError {
+    readonly timeoutMs: number;
+
+    constructor(message: string, timeoutMs: number) {
+        super(message, 0, "timeout");
+        this.name = "TimeoutError";
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Thrown when the configured `PolicyEngine` denies an operation before
+ * it is sent. Carries the engine's `PolicyDecision`.
+ */
+export class PolicyDeniedError extends OneclawError {
+    readonly decision: PolicyDecision;
+
+    constructor(decision: PolicyDecision, message?: string) {
+        super(
+            message ?? decision.reason ?? "Denied by client-side policy engine",
+            403,
+            "policy_denied",
+        );
+        this.name = "PolicyDeniedError";
+        this.decision = decision;
+    }
+}
+
+/**
+ * Thrown when a client-side encrypted secret cannot be decrypted locally:
+ * no `CryptoProvider` is configured, the configured provider or key does
+ * not match the one recorded on the secret, or decryption fails.
+ * Raised locally, so `status` is 0.
+ */
+export class ClientEncryptionError extends OneclawError {
+    constructor(message: string) {
+        super(message, 0, "client_encryption_error");
+        this.name = "ClientEncryptionError";
+    }
+}
+
+/**
+ * A secret value is not in the format its typed accessor expects (e.g.
+ * a truncated PEM certificate or malformed JSON). Thrown by the `set*`
+ * helpers before anything is uploaded; returned as an error envelope by
+ * the `get*` helpers. Raised locally, so `status` is 0.
+ */
+export class SecretFormatError extends OneclawError {
+    constructor(message: string) {
+        super(message, 0, "secret_format_error");
+        this.name = "SecretFormatError";
+    }
+}
+
+/**
+ * A vault backup archive is not an archive, is truncated, fails its
+ * integrity checks, or can't be decrypted with the given key. Raised
+ * locally, so `status` is 0.
+ */
+export class BackupArchiveError extends OneclawError {
+    constructor(message: string) {
+        super(message, 0, "backup_archive_error");
+        this.name = "BackupArchiveError";
+    }
+}
+
+/**
+ * Thrown by `resolveSecrets` when one or more references could not be
+ * resolved. Lists every failure so they can be fixed in one pass.
+ */
+export class UnresolvedReferencesError extends OneclawError {
+    readonly references: UnresolvedReference[];
+
+    constructor(references: UnresolvedReference[]) {
+        super(
+            `${references.length} secret reference(s) could not be resolved:\n` +
+                references
+                    .map((r) => `  ${r.location || "/"}: ${r.reference} — ${r.reason}`)
+                    .join("\n"),
+            0,
+            "unresolved_references",
+        );
+        this.name = "UnresolvedReferencesError";
+        this.references = references;
+    }
+}
+
+/** One failed reference reported by `UnresolvedReferencesError`. */
+export interface UnresolvedReference {
+    /** The reference text as written (e.g. `1claw://prod/db/pass`). */
+    reference: string;
+    /** JSON pointer to the value that held it ("" for the root). */
+    location: string;
+    /** Why it could not be resolved. */
+    reason: string;
+}
+
 /** Thrown on 500+ server-side errors. */
 export class ServerError extends OneclawError {
     constructor(
@@ -162,13 +266,11 @@ export async function errorFromResponse(res: Response): Promise<OneclawError> {
         }
         case 404:
             return new NotFoundError(message);
-        case 429: {
-            const retryHeader = res.headers.get("Retry-After");
-            const retryAfterMs = retryHeader
-                ? parseInt(retryHeader, 10) * 1000
-                : undefined;
-            return new RateLimitError(message, retryAfterMs);
-        }
+        case 429:
+            return new RateLimitError(
+                message,
+                parseRetryAfter(res.headers.get("Retry-After")),
+            );
         default:
             if (res.status >= 500) return new ServerError(message, res.status);
             return new OneclawError(message, res.status, "unknown");
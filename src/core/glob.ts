@@ -0,0 +1,37 @@
+/**
+ * Glob matching for vault policy `secret_path_pattern`s.
+ *
+ * - `*` matches any characters within a single path segment
+ * - `**` matches across segments (including none)
+ * - `?` matches a single character other than `/`
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let re = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "*") {
+            if (pattern[i + 1] === "*") {
+                i++;
+                // "**/" also matches zero segments, so "a/**/b" matches "a/b"
+                if (pattern[i + 1] === "/") {
+                    i++;
+                    re += "(?:.*/)?";
+                } else {
+                    re += ".*";
+                }
+            } else {
+                re += "[^/]*";
+            }
+        } else if (c === "?") {
+            re += "[^/]";
+        } else {
+            re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${re}$`);
+}
+
+/** Whether `path` matches the glob `pattern`. */
+export function matchesGlob(pattern: string, path: string): boolean {
+    return globToRegExp(pattern).test(path);
+}
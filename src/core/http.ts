@@ -1,32 +1,171 @@
 import type {
+    AuditContext,
+    FetchInitExtras,
     OneclawClientConfig,
     OneclawResponse,
-    PaymentRequirement,
-    X402Signer,
+    RequestOptions,
 } from "../types";
-import { errorFromResponse, PaymentRequiredError } from "./errors";
+import type { AuditSink } from "../plugins/audit-sink";
+import { errorFromResponse, TimeoutError, type OneclawError } from "./errors";
+import {
+    composeMiddleware,
+    auditMiddleware,
+    errorMappingMiddleware,
+    retryMiddleware,
+    authMiddleware,
+    x402Middleware,
+    RESPONSE_ERROR,
+    type Middleware,
+    type NextMiddleware,
+    type RequestContext,
+} from "./middleware";
+
+/** Options accepted by `HttpClient.request` and `requestOrThrow`. */
+export interface HttpRequestOptions extends RequestOptions {
+    body?: unknown;
+    query?: Record<string, string | number | undefined>;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Headers carrying a per-call `AuditContext`. Values are URI-encoded so
+ * any Unicode reason or tag survives the Latin-1 header restriction.
+ */
+function auditHeaders(audit?: AuditContext): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (!audit) return headers;
+    if (audit.reason) {
+        headers["X-1Claw-Audit-Reason"] = encodeURIComponent(audit.reason);
+    }
+    if (audit.correlationId) {
+        headers["X-1Claw-Correlation-Id"] = encodeURIComponent(
+            audit.correlationId,
+        );
+    }
+    const tags = Object.entries(audit.tags ?? {});
+    if (tags.length > 0) {
+        headers["X-1Claw-Audit-Tags"] = tags
+            .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+            .join(",");
+    }
+    return headers;
+}
+
+/** `Response` methods that read the body and so stay under the deadline. */
+const BODY_READERS = ["arrayBuffer", "blob", "formData", "json", "text"] as const;
+
+/**
+ * Call `fetch` with an optional caller `AbortSignal` and a deadline.
+ * The deadline covers reading the body too: a body read that is still
+ * pending when it elapses rejects with `TimeoutError`, as does the
+ * request itself. A caller abort rejects with the signal's own abort
+ * reason. Uses `fetchImpl` when given, otherwise the global `fetch`.
+ */
+export async function fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions = {},
+    fetchImpl?: typeof fetch,
+): Promise<Response> {
+    const doFetch = fetchImpl ?? globalThis.fetch;
+    const { signal, timeoutMs } = options;
+    if (!signal && !timeoutMs) return doFetch(url, init);
+    if (signal?.aborted) throw signal.reason;
+    if (!timeoutMs) return doFetch(url, { ...init, signal });
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let timedOut = false;
+    const timeoutError = () =>
+        new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs);
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener(
+            "abort",
+            () => reject(timedOut ? timeoutError() : controller.signal.reason),
+            { once: true },
+        );
+    });
+    aborted.catch(() => {});
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    };
+
+    let res: Response;
+    try {
+        res = await doFetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+        cleanup();
+        if (timedOut) throw timeoutError();
+        throw err;
+    }
+    if (res.body === null) {
+        cleanup();
+        return res;
+    }
+
+    // Keep the deadline running until the body has been read or cancelled.
+    const readers = res as unknown as Record<string, unknown>;
+    for (const name of BODY_READERS) {
+        const read = readers[name];
+        if (typeof read !== "function") continue;
+        readers[name] = () =>
+            Promise.race([read.call(res), aborted]).finally(cleanup);
+    }
+    const body = res.body;
+    if (body) {
+        const cancel = body.cancel.bind(body);
+        body.cancel = (reason?: unknown) => cancel(reason).finally(cleanup);
+    }
+    return res;
+}
 
 /**
  * Internal HTTP transport used by every resource module.
- * Handles authentication headers, 402 auto-pay, and error mapping.
+ *
+ * Every request runs through a middleware pipeline. The built-ins are,
+ * outermost first: `audit` (only when `plugins.auditSink` is set),
+ * `errors` (typed error mapping), `retry`, `auth` (token refresh +
+ * Bearer header) and `x402` (auto-pay). Custom
+ * middleware from `OneclawClientConfig.middleware` is appended after
+ * them, or can replace/reorder them via the function form.
  */
 export class HttpClient {
     private baseUrl: string;
     private token?: string;
     private tokenExpiresAt = 0;
-    private signer?: X402Signer;
-    private maxAutoPayUsd: number;
     private agentCredentials?: { agentId?: string; apiKey: string };
     private refreshPromise?: Promise<void>;
     private _resolvedAgentId?: string;
+    private timeoutMs?: number;
+    private fetchImpl?: typeof fetch;
+    private initExtras: FetchInitExtras;
+    private pipeline: NextMiddleware;
+    private auditSink?: AuditSink;
+    private audit?: Middleware;
+    private pendingAudit = new Set<Promise<void>>();
 
     private static readonly REFRESH_BUFFER_MS = 60_000;
 
     constructor(config: OneclawClientConfig) {
         this.baseUrl = config.baseUrl.replace(/\/$/, "");
         this.token = config.token;
-        this.signer = config.x402Signer;
-        this.maxAutoPayUsd = config.maxAutoPayUsd ?? 0;
+        this.timeoutMs = config.timeoutMs;
+        this.fetchImpl = config.fetch;
+        this.initExtras = config.requestInit ?? {};
+        this.auditSink = config.plugins?.auditSink;
+        if (this.auditSink) {
+            this.audit = auditMiddleware(this.auditSink, (pending) => {
+                this.pendingAudit.add(pending);
+                pending.then(() => this.pendingAudit.delete(pending));
+            });
+        }
 
         const isAgentKey =
             config.apiKey?.startsWith("ocv_") || !!config.agentId;
@@ -36,6 +175,15 @@ export class HttpClient {
                 apiKey: config.apiKey,
             };
         }
+
+        const defaults = this.defaultMiddleware(config);
+        const chain =
+            typeof config.middleware === "function"
+                ? config.middleware(defaults)
+                : [...defaults, ...(config.middleware ?? [])];
+        this.pipeline = composeMiddleware(chain, (ctx) =>
+            this.send(ctx.url, ctx.init, ctx.options),
+        );
     }
 
     /** Agent ID resolved from the token exchange (for key-only auth). */
@@ -57,19 +205,84 @@ export class HttpClient {
         return this.baseUrl;
     }
 
-    private static decodeExpiry(jwt: string): number {
+    /**
+     * Issue a raw request through the configured `fetch`, with the
+     * client's `requestInit` extras and default deadline applied.
+     * Bypasses the middleware pipeline — used by resources that manage
+     * their own headers (e.g. x402). `options.audit` is still sent as
+     * headers, and the call is still reported to the audit sink.
+     */
+    rawFetch(
+        url: string,
+        init: RequestInit,
+        options: RequestOptions = {},
+    ): Promise<Response> {
+        if (options.audit) {
+            init = {
+                ...init,
+                headers: {
+                    ...(init.headers as Record<string, string>),
+                    ...auditHeaders(options.audit),
+                },
+            };
+        }
+        if (!this.audit) return this.send(url, init, options);
+        const ctx = {
+            method: init.method ?? "GET",
+            path: new URL(url).pathname,
+            url,
+            init: init as RequestContext["init"],
+            options,
+            state: {},
+        };
+        return this.audit.handle(ctx, (c) => this.send(c.url, c.init, c.options));
+    }
+
+    /**
+     * Wait for in-flight audit events, then flush the audit sink.
+     * Errors raised by the sink's own `flush` propagate to the caller.
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this.pendingAudit);
+        await this.auditSink?.flush?.();
+    }
+
+    /**
+     * Resolve who the client is acting as: the agent from the token
+     * exchange, or the JWT subject for user tokens. Refreshes agent
+     * tokens first so key-only agents are resolved.
+     */
+    async resolvePrincipal(): Promise<{
+        principalId: string;
+        principalType: "user" | "agent";
+    }> {
+        await this.ensureToken();
+        const agentId = this.resolvedAgentId;
+        if (agentId) return { principalId: agentId, principalType: "agent" };
+        const claims = this.token ? HttpClient.decodeClaims(this.token) : {};
+        return {
+            principalId: typeof claims.sub === "string" ? claims.sub : "",
+            principalType: "user",
+        };
+    }
+
+    private static decodeClaims(jwt: string): Record<string, unknown> {
         try {
             const parts = jwt.split(".");
-            if (parts.length !== 3) return 0;
-            const payload = JSON.parse(
+            if (parts.length !== 3) return {};
+            return JSON.parse(
                 atob(parts[1].replace(/-/g, "+").replace(/_/g, "/")),
             );
-            return typeof payload.exp === "number" ? payload.exp * 1000 : 0;
         } catch {
-            return 0;
+            return {};
         }
     }
 
+    private static decodeExpiry(jwt: string): number {
+        const { exp } = HttpClient.decodeClaims(jwt);
+        return typeof exp === "number" ? exp * 1000 : 0;
+    }
+
     private async ensureToken(): Promise<void> {
         if (!this.agentCredentials) return;
         if (
@@ -91,11 +304,14 @@ export class HttpClient {
                 body.agent_id = this.agentCredentials!.agentId;
             }
 
-            const res = await fetch(`${this.baseUrl}/v1/auth/agent-token`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(body),
-            });
+            const res = await this.rawFetch(
+                `${this.baseUrl}/v1/auth/agent-token`,
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(body),
+                },
+            );
 
             if (!res.ok) {
                 throw new Error(
@@ -127,37 +343,32 @@ export class HttpClient {
 
     /**
      * Perform a typed request against the API and return an envelope.
-     * Automatically retries once with an x402 payment header when
-     * a signer is configured and the price is within limits.
+     * Non-2xx responses mapped by the built-in `errors` middleware become
+     * error envelopes; anything else thrown by the pipeline (e.g. an
+     * x402 auto-pay limit) propagates to the caller.
      */
     async request<T>(
         method: string,
         path: string,
-        options: {
-            body?: unknown;
-            query?: Record<string, string | number | undefined>;
-            headers?: Record<string, string>;
-        } = {},
+        options: HttpRequestOptions = {},
     ): Promise<OneclawResponse<T>> {
-        await this.ensureToken();
-        const url = this.buildUrl(path, options.query);
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-            ...options.headers,
-        };
-        if (this.token) {
-            headers["Authorization"] = `Bearer ${this.token}`;
-        }
+        const ctx = this.createContext(method, path, options);
 
-        const init: RequestInit = { method, headers };
-        if (options.body !== undefined) {
-            init.body = JSON.stringify(options.body);
-        }
-
-        let res = await fetch(url, init);
-
-        if (res.status === 402 && this.signer) {
-            res = await this.handlePayment(res, url, init);
+        let res: Response;
+        try {
+            res = await this.pipeline(ctx);
+        } catch (err) {
+            if (err !== ctx.state[RESPONSE_ERROR]) throw err;
+            const mapped = err as OneclawError;
+            return {
+                data: null,
+                error: {
+                    type: mapped.type,
+                    message: mapped.message,
+                    detail: mapped.detail,
+                },
+                meta: { status: mapped.status },
+            };
         }
 
         if (!res.ok) {
@@ -192,32 +403,10 @@ export class HttpClient {
     async requestOrThrow<T>(
         method: string,
         path: string,
-        options: {
-            body?: unknown;
-            query?: Record<string, string | number | undefined>;
-            headers?: Record<string, string>;
-        } = {},
+        options: HttpRequestOptions = {},
     ): Promise<T> {
-        await this.ensureToken();
-        const url = this.buildUrl(path, options.query);
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-            ...options.headers,
-        };
-        if (this.token) {
-            headers["Authorization"] = `Bearer ${this.token}`;
-        }
-
-        const init: RequestInit = { method, headers };
-        if (options.body !== undefined) {
-            init.body = JSON.stringify(options.body);
-        }
-
-        let res = await fetch(url, init);
-
-        if (res.status === 402 && this.signer) {
-            res = await this.handlePayment(res, url, init);
-        }
+        const ctx = this.createContext(method, path, options);
+        const res = await this.pipeline(ctx);
 
         if (!res.ok) {
             throw await errorFromResponse(res);
@@ -234,6 +423,71 @@ export class HttpClient {
     // Private helpers
     // -----------------------------------------------------------------------
 
+    /** Send a request through `fetch` with extras and deadline applied. */
+    private send(
+        url: string,
+        init: RequestInit,
+        options: RequestOptions,
+    ): Promise<Response> {
+        return fetchWithTimeout(
+            url,
+            { ...this.initExtras, ...init } as RequestInit,
+            this.transportOptions(options),
+            this.fetchImpl,
+        );
+    }
+
+    /** Built-in middleware, outermost first. */
+    private defaultMiddleware(config: OneclawClientConfig): Middleware[] {
+        return [
+            ...(this.audit ? [this.audit] : []),
+            errorMappingMiddleware(),
+            retryMiddleware(config.retry),
+            authMiddleware({
+                ensureToken: () => this.ensureToken(),
+                getToken: () => this.token,
+            }),
+            x402Middleware({
+                signer: config.x402Signer,
+                maxAutoPayUsd: config.maxAutoPayUsd ?? 0,
+            }),
+        ];
+    }
+
+    private createContext(
+        method: string,
+        path: string,
+        options: HttpRequestOptions,
+    ): RequestContext {
+        const init: RequestContext["init"] = {
+            method,
+            headers: {
+                "Content-Type": "application/json",
+                ...auditHeaders(options.audit),
+                ...options.headers,
+            },
+        };
+        if (options.body !== undefined) {
+            init.body = JSON.stringify(options.body);
+        }
+        return {
+            method,
+            path,
+            url: this.buildUrl(path, options.query),
+            init,
+            options: this.transportOptions(options),
+            state: {},
+        };
+    }
+
+    /** Resolve the per-call signal and deadline against client defaults. */
+    private transportOptions(options: RequestOptions): RequestOptions {
+        return {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs ?? this.timeoutMs,
+        };
+    }
+
     private buildUrl(
         path: string,
         query?: Record<string, string | number | undefined>,
@@ -246,61 +500,4 @@ export class HttpClient {
         }
         return url.toString();
     }
-
-    /**
-     * Attempt to sign an x402 payment and retry the original request
-     * with the `X-PAYMENT` header attached.
-     */
-    private async handlePayment(
-        originalRes: Response,
-        url: string,
-        init: RequestInit,
-    ): Promise<Response> {
-        let requirement: PaymentRequirement;
-        try {
-            requirement = (await originalRes.json()) as PaymentRequirement;
-        } catch {
-            return originalRes;
-        }
-
-        const accept = requirement.accepts?.[0];
-        if (!accept || !this.signer) return originalRes;
-
-        // Prefer maxAmountRequired (atomic); fall back to price (USD) for older servers
-        const priceUsd =
-            accept.price != null
-                ? parseFloat(accept.price)
-                : parseFloat(accept.maxAmountRequired) / 1_000_000; // USDC 6 decimals -> USD
-        if (Number.isNaN(priceUsd)) {
-            return originalRes;
-        }
-        if (this.maxAutoPayUsd > 0 && priceUsd > this.maxAutoPayUsd) {
-            throw new PaymentRequiredError(
-                `Payment of $${priceUsd.toFixed(4)} exceeds auto-pay limit of $${this.maxAutoPayUsd}`,
-                requirement,
-            );
-        }
-        if (this.maxAutoPayUsd === 0) {
-            throw new PaymentRequiredError(
-                `Payment of $${priceUsd.toFixed(4)} required. Enable auto-pay via maxAutoPayUsd config.`,
-                requirement,
-            );
-        }
-
-        const signature = await this.signer.signPayment(accept);
-
-        const paymentPayload = {
-            x402Version: requirement.x402Version,
-            scheme: accept.scheme,
-            network: accept.network,
-            payload: signature,
-        };
-
-        const retryHeaders = {
-            ...(init.headers as Record<string, string>),
-            "X-PAYMENT": JSON.stringify(paymentPayload),
-        };
-
-        return fetch(url, { ...init, headers: retryHeaders });
-    }
 }
@@ -0,0 +1,328 @@
+import type {
+    PaymentRequirement,
+    RequestOptions,
+    RetryOptions,
+    X402Signer,
+} from "../types";
+import type { AuditSink } from "../plugins/audit-sink";
+import {
+    OneclawError,
+    PaymentRequiredError,
+    TimeoutError,
+    errorFromResponse,
+} from "./errors";
+import {
+    resolveRetryOptions,
+    isRetryableRequest,
+    backoffDelay,
+    parseRetryAfter,
+    sleep,
+} from "./retry";
+
+/**
+ * Mutable view of a single SDK call as it travels through the
+ * middleware pipeline.
+ */
+export interface RequestContext {
+    /** HTTP method (GET, POST, PUT, PATCH, DELETE). */
+    readonly method: string;
+    /** API path without the base URL (e.g. "/v1/vaults"). */
+    readonly path: string;
+    /** Fully-qualified request URL, including query string. */
+    url: string;
+    /** Outgoing request. Headers are always a plain object. */
+    init: Omit<RequestInit, "headers"> & { headers: Record<string, string> };
+    /** Per-call signal and deadline. */
+    readonly options: RequestOptions;
+    /** Scratch space shared by every middleware for this call. */
+    readonly state: Record<string, unknown>;
+}
+
+/** Invoke the rest of the pipeline with the (possibly rewritten) context. */
+export type NextMiddleware = (ctx: RequestContext) => Promise<Response>;
+
+/**
+ * A single step in the request pipeline. Middleware runs in array order
+ * on the way out and in reverse on the way back. A middleware may
+ * rewrite the context, call `next` zero times (short-circuit), once,
+ * or several times (retry).
+ *
+ * @example
+ * ```ts
+ * const tracing: Middleware = {
+ *   name: "tracing",
+ *   async handle(ctx, next) {
+ *     ctx.init.headers["traceparent"] = currentTraceparent();
+ *     return next(ctx);
+ *   },
+ * };
+ * ```
+ */
+export interface Middleware {
+    /** Identifier used to find, reorder, or remove the middleware. */
+    readonly name: string;
+    handle(ctx: RequestContext, next: NextMiddleware): Promise<Response>;
+}
+
+/**
+ * Either extra middleware appended after the built-ins, or a function
+ * that receives the built-in chain and returns the chain to use.
+ */
+export type MiddlewareConfig =
+    | Middleware[]
+    | ((defaults: Middleware[]) => Middleware[]);
+
+/** Key under which the `errors` middleware records the error it raised. */
+export const RESPONSE_ERROR = "responseError";
+
+/** Key under which the `x402` middleware records that it sent a payment. */
+export const PAYMENT_SENT = "paymentSent";
+
+/** Chain middleware into a single function ending in `terminal`. */
+export function composeMiddleware(
+    middleware: Middleware[],
+    terminal: NextMiddleware,
+): NextMiddleware {
+    const dispatch = (index: number, ctx: RequestContext): Promise<Response> => {
+        const mw = middleware[index];
+        if (!mw) return terminal(ctx);
+        return mw.handle(ctx, (next) => dispatch(index + 1, next));
+    };
+    return (ctx) => dispatch(0, ctx);
+}
+
+/**
+ * Built-in `audit` middleware: emits an `AuditSinkEvent` to the sink
+ * once the rest of the pipeline settles. Emission is fire-and-forget —
+ * a throwing or rejecting sink never affects the request. Each pending
+ * emit is handed to `track` so the client can await it on `flush()`.
+ */
+export function auditMiddleware(
+    sink: AuditSink,
+    track: (pending: Promise<void>) => void = () => {},
+): Middleware {
+    const emit = (
+        ctx: RequestContext,
+        startedAt: number,
+        statusCode: number,
+        error?: string,
+    ) => {
+        try {
+            const pending = Promise.resolve(
+                sink.emit({
+                    timestamp: new Date(startedAt).toISOString(),
+                    method: ctx.method,
+                    path: ctx.path,
+                    statusCode,
+                    durationMs: Date.now() - startedAt,
+                    success: error === undefined,
+                    error,
+                }),
+            ).catch(() => {});
+            track(pending);
+        } catch {
+            /* a broken sink must not break the request */
+        }
+    };
+
+    return {
+        name: "audit",
+        async handle(ctx, next) {
+            const startedAt = Date.now();
+            let res: Response;
+            try {
+                res = await next(ctx);
+            } catch (err) {
+                emit(
+                    ctx,
+                    startedAt,
+                    err instanceof OneclawError ? err.status : 0,
+                    err instanceof Error ? err.message : String(err),
+                );
+                throw err;
+            }
+            emit(
+                ctx,
+                startedAt,
+                res.status,
+                res.ok ? undefined : `HTTP ${res.status}`,
+            );
+            return res;
+        },
+    };
+}
+
+/**
+ * Built-in `errors` middleware: converts non-2xx responses into typed
+ * `OneclawError`s. `HttpClient.request` turns these into error envelopes;
+ * anything else thrown by the pipeline propagates to the caller.
+ */
+export function errorMappingMiddleware(): Middleware {
+    return {
+        name: "errors",
+        async handle(ctx, next) {
+            const res = await next(ctx);
+            if (res.ok) return res;
+            const err = await errorFromResponse(res);
+            ctx.state[RESPONSE_ERROR] = err;
+            throw err;
+        },
+    };
+}
+
+/**
+ * Built-in `retry` middleware: replays transient failures with
+ * exponential backoff. Non-idempotent requests without an
+ * `Idempotency-Key` header are sent exactly once, and so is any request
+ * that carried an `X-PAYMENT` header, so a payment is never made twice.
+ * A server `Retry-After` is capped at `maxDelayMs`.
+ */
+export function retryMiddleware(options?: RetryOptions): Middleware {
+    const policy = resolveRetryOptions(options);
+    return {
+        name: "retry",
+        async handle(ctx, next) {
+            const canRetry =
+                policy.maxAttempts > 1 &&
+                isRetryableRequest(ctx.method, ctx.init.headers) &&
+                !hasHeader(ctx.init.headers, "X-PAYMENT");
+            const signal = ctx.options.signal;
+
+            for (let attempt = 1; ; attempt++) {
+                let res: Response;
+                try {
+                    res = await next(ctx);
+                } catch (err) {
+                    const isLast =
+                        !canRetry ||
+                        attempt >= policy.maxAttempts ||
+                        ctx.state[PAYMENT_SENT] === true;
+                    const retryable =
+                        err instanceof TimeoutError
+                            ? policy.retryOnTimeout
+                            : !(err instanceof OneclawError) &&
+                              policy.retryOnNetworkError &&
+                              !signal?.aborted;
+                    if (isLast || !retryable) throw err;
+                    await sleep(backoffDelay(policy, attempt), signal);
+                    continue;
+                }
+
+                const isLast =
+                    !canRetry ||
+                    attempt >= policy.maxAttempts ||
+                    ctx.state[PAYMENT_SENT] === true;
+                if (isLast || !policy.retryOnStatus.includes(res.status)) {
+                    return res;
+                }
+
+                const retryAfterMs = policy.respectRetryAfter
+                    ? parseRetryAfter(res.headers.get("Retry-After"))
+                    : undefined;
+                // Release the discarded response's connection and deadline.
+                await res.body?.cancel().catch(() => {});
+                await sleep(
+                    retryAfterMs !== undefined
+                        ? Math.min(retryAfterMs, policy.maxDelayMs)
+                        : backoffDelay(policy, attempt),
+                    signal,
+                );
+            }
+        },
+    };
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+    const wanted = name.toLowerCase();
+    return Object.keys(headers).some((h) => h.toLowerCase() === wanted);
+}
+
+/**
+ * Built-in `auth` middleware: refreshes agent tokens when needed and
+ * attaches the current Bearer token.
+ */
+export function authMiddleware(auth: {
+    ensureToken(): Promise<void>;
+    getToken(): string | undefined;
+}): Middleware {
+    return {
+        name: "auth",
+        async handle(ctx, next) {
+            await auth.ensureToken();
+            const token = auth.getToken();
+            if (token) ctx.init.headers["Authorization"] = `Bearer ${token}`;
+            return next(ctx);
+        },
+    };
+}
+
+/**
+ * Built-in `x402` middleware: when a 402 comes back and a signer is
+ * configured, signs the payment (within `maxAutoPayUsd`) and replays
+ * the request with an `X-PAYMENT` header.
+ */
+export function x402Middleware(options: {
+    signer?: X402Signer;
+    maxAutoPayUsd: number;
+}): Middleware {
+    const { signer, maxAutoPayUsd } = options;
+    return {
+        name: "x402",
+        async handle(ctx, next) {
+            const res = await next(ctx);
+            if (res.status !== 402 || !signer) return res;
+
+            let requirement: PaymentRequirement;
+            try {
+                requirement = (await res.json()) as PaymentRequirement;
+            } catch {
+                return res;
+            }
+
+            const accept = requirement.accepts?.[0];
+            if (!accept) return res;
+
+            // Prefer maxAmountRequired (atomic); fall back to price (USD) for older servers
+            const priceUsd =
+                accept.price != null
+                    ? parseFloat(accept.price)
+                    : parseFloat(accept.maxAmountRequired) / 1_000_000; // USDC 6 decimals -> USD
+            if (Number.isNaN(priceUsd)) {
+                return res;
+            }
+            if (maxAutoPayUsd > 0 && priceUsd > maxAutoPayUsd) {
+                throw new PaymentRequiredError(
+                    `Payment of $${priceUsd.toFixed(4)} exceeds auto-pay limit of $${maxAutoPayUsd}`,
+                    requirement,
+                );
+            }
+            if (maxAutoPayUsd === 0) {
+                throw new PaymentRequiredError(
+                    `Payment of $${priceUsd.toFixed(4)} required. Enable auto-pay via maxAutoPayUsd config.`,
+                    requirement,
+                );
+            }
+
+            const signature = await signer.signPayment(accept);
+            ctx.state[PAYMENT_SENT] = true;
+
+            const paymentPayload = {
+                x402Version: requirement.x402Version,
+                scheme: accept.scheme,
+                network: accept.network,
+                payload: signature,
+            };
+
+            return next({
+                ...ctx,
+                init: {
+                    ...ctx.init,
+                    headers: {
+                        ...ctx.init.headers,
+                        "X-PAYMENT": JSON.stringify(paymentPayload),
+                    },
+                },
+            });
+        },
+    };
+}
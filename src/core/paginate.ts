@@ -0,0 +1,99 @@
+import type { OneclawResponse } from "../types";
+import { OneclawError, ValidationError } from "./errors";
+
+/** Options accepted by `paginate` and the `iterate*` methods. */
+export interface PaginateOptions {
+    /** Items requested per page (default: 100). Ignored by endpoints that don't page. */
+    pageSize?: number;
+    /** Stop after this many items (default: no limit). */
+    maxItems?: number;
+}
+
+/** Position of the page a `PageFetcher` should return. */
+export interface PageRequest {
+    /** Number of items already returned by earlier pages. */
+    offset: number;
+    /** 1-based page number. */
+    page: number;
+    /** Page size. */
+    limit: number;
+}
+
+/**
+ * One page of results. Iteration stops when `hasMore` is false, or,
+ * when it is omitted, at the first page shorter than `limit`.
+ */
+export interface Page<T> {
+    items: T[];
+    hasMore?: boolean;
+}
+
+/** Fetches one page; works with offset-, page-number- or unpaged endpoints. */
+export type PageFetcher<T> = (
+    request: PageRequest,
+) => Promise<OneclawResponse<Page<T>>>;
+
+/**
+ * Iterate over every item of a paginated endpoint, fetching pages
+ * lazily. Breaking out of a `for await` loop stops further requests.
+ * An error envelope is thrown as a `OneclawError`.
+ *
+ * @example
+ * ```ts
+ * for await (const event of paginate(
+ *     async ({ offset, limit }) => pageOf(
+ *         await client.audit.query({ offset, limit }),
+ *         (data) => data.events,
+ *     ),
+ *     { pageSize: 50, maxItems: 500 },
+ * )) {
+ *     console.log(event.action);
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+    fetchPage: PageFetcher<T>,
+    options: PaginateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+    const { pageSize = 100, maxItems = Infinity } = options;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new ValidationError("pageSize must be a positive integer");
+    }
+    if (!(maxItems >= 0)) {
+        throw new ValidationError("maxItems must not be negative");
+    }
+
+    let offset = 0;
+    for (let page = 1; offset < maxItems; page++) {
+        const res = await fetchPage({ offset, page, limit: pageSize });
+        if (res.error) {
+            throw new OneclawError(
+                res.error.message,
+                res.meta?.status ?? 0,
+                res.error.type,
+                res.error.detail,
+            );
+        }
+        const { items, hasMore } = res.data!;
+        for (const item of items) {
+            if (offset >= maxItems) return;
+            offset++;
+            yield item;
+        }
+        if (items.length === 0 || hasMore === false) return;
+        if (hasMore === undefined && items.length < pageSize) return;
+    }
+}
+
+/**
+ * Turn a list envelope into a `Page`, picking the items with `select`.
+ * Pass `hasMore: false` for endpoints that return everything at once.
+ */
+export function pageOf<R, T>(
+    res: OneclawResponse<R>,
+    select: (data: R) => T[],
+    hasMore?: boolean,
+): OneclawResponse<Page<T>> {
+    if (res.error) return { data: null, error: res.error, meta: res.meta };
+    return { data: { items: select(res.data!), hasMore }, error: null, meta: res.meta };
+}
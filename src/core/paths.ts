@@ -0,0 +1,72 @@
+import { ValidationError } from "./errors";
+
+/** Longest secret path accepted, in characters after normalization. */
+export const MAX_SECRET_PATH_LENGTH = 1024;
+
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+/**
+ * Normalize a secret path and check it is safe to put in a URL.
+ *
+ * - Unicode is normalized to NFC, so visually identical paths match.
+ * - Leading, trailing and repeated `/` are removed (`/db//pass/` → `db/pass`).
+ * - Empty paths, `.` and `..` segments, control characters and paths
+ *   longer than `MAX_SECRET_PATH_LENGTH` throw `ValidationError`.
+ *
+ * Spaces, `?`, `#`, `%` and non-ASCII characters are allowed; they are
+ * percent-encoded by `encodeSecretPath`.
+ */
+export function normalizeSecretPath(path: string): string {
+    if (typeof path !== "string") {
+        throw new ValidationError("Secret path must be a string");
+    }
+    if (CONTROL_CHARS.test(path)) {
+        throw new ValidationError(
+            `Secret path ${JSON.stringify(path)} contains control characters`,
+        );
+    }
+    const segments = path.normalize("NFC").split("/").filter((s) => s !== "");
+    if (segments.length === 0) {
+        throw new ValidationError("Secret path must not be empty");
+    }
+    if (segments.some((s) => s === "." || s === "..")) {
+        throw new ValidationError(
+            `Secret path "${path}" must not contain "." or ".." segments`,
+        );
+    }
+    const normalized = segments.join("/");
+    if (normalized.length > MAX_SECRET_PATH_LENGTH) {
+        throw new ValidationError(
+            `Secret path is longer than ${MAX_SECRET_PATH_LENGTH} characters`,
+        );
+    }
+    return normalized;
+}
+
+/**
+ * Normalize a secret path (see `normalizeSecretPath`) and percent-encode
+ * each segment for use in a request path. Slashes between segments are
+ * kept, so `db/my key?` becomes `db/my%20key%3F`.
+ */
+export function encodeSecretPath(path: string): string {
+    return normalizeSecretPath(path)
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/");
+}
+
+/**
+ * Check and percent-encode an ID (vault, agent, share, policy, …) used
+ * as a single path segment. `label` names the ID in error messages.
+ * Throws `ValidationError` for empty values, `/`, `.` / `..`, and
+ * control characters.
+ */
+export function encodePathId(id: string, label: string): string {
+    if (typeof id !== "string" || id.trim() === "") {
+        throw new ValidationError(`${label} must be a non-empty string`);
+    }
+    if (id.includes("/") || id === "." || id === ".." || CONTROL_CHARS.test(id)) {
+        throw new ValidationError(`Invalid ${label}: ${JSON.stringify(id)}`);
+    }
+    return encodeURIComponent(id);
+}
@@ -0,0 +1,94 @@
+import type { RetryOptions } from "../types";
+
+/** Retry settings with every default filled in. */
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+const DEFAULT_RETRY: ResolvedRetryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 250,
+    maxDelayMs: 8_000,
+    jitter: true,
+    retryOnStatus: [408, 429, 500, 502, 503, 504],
+    retryOnNetworkError: true,
+    retryOnTimeout: true,
+    respectRetryAfter: true,
+};
+
+/** Methods that are safe to replay without an idempotency key. */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Merge user-supplied retry options with the defaults.
+ * Passing `undefined` disables retries (a single attempt).
+ */
+export function resolveRetryOptions(
+    options?: RetryOptions,
+): ResolvedRetryOptions {
+    if (!options) return { ...DEFAULT_RETRY, maxAttempts: 1 };
+    return {
+        ...DEFAULT_RETRY,
+        ...options,
+        maxAttempts: Math.max(1, options.maxAttempts ?? DEFAULT_RETRY.maxAttempts),
+    };
+}
+
+/**
+ * Whether a request may be replayed. Non-idempotent methods qualify
+ * only when they carry an `Idempotency-Key` header.
+ */
+export function isRetryableRequest(
+    method: string,
+    headers: Record<string, string> = {},
+): boolean {
+    if (IDEMPOTENT_METHODS.has(method.toUpperCase())) return true;
+    return Object.keys(headers).some(
+        (h) => h.toLowerCase() === "idempotency-key",
+    );
+}
+
+/**
+ * Exponential backoff for the given attempt (1-based), capped at
+ * `maxDelayMs`, with optional full jitter.
+ */
+export function backoffDelay(
+    options: ResolvedRetryOptions,
+    attempt: number,
+): number {
+    const exp = Math.min(
+        options.maxDelayMs,
+        options.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return options.jitter ? Math.floor(Math.random() * exp) : exp;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into
+ * milliseconds. Returns `undefined` when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, date - Date.now());
+}
+
+/**
+ * Resolve after `ms` milliseconds. Rejects early with the signal's
+ * abort reason if `signal` fires first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
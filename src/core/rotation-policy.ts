@@ -0,0 +1,40 @@
+/**
+ * Metadata key under which a secret's rotation policy is recorded, so
+ * `secrets.list` exposes it to the rotation scheduler.
+ */
+export const ROTATION_METADATA_KEY = "_1claw_rotation";
+
+/**
+ * When and how a secret is rotated. Pass it as
+ * `SetSecretOptions.rotation_policy`; the SDK mirrors it into the
+ * secret's metadata.
+ */
+export interface RotationPolicy {
+    /** Name of the `Rotator` that produces new values. */
+    rotator: string;
+    /** Rotation period: milliseconds or a duration such as "30d". */
+    interval: string | number;
+    /** Rotator-specific settings (e.g. `agent_id`). */
+    config?: Record<string, unknown>;
+    /** Set by the rotation engine after each successful rotation. */
+    last_rotated_at?: string;
+}
+
+/** Whether a free-form `rotation_policy` is one the SDK rotation engine drives. */
+export function isRotationPolicy(value: unknown): value is RotationPolicy {
+    if (!value || typeof value !== "object") return false;
+    const policy = value as Record<string, unknown>;
+    return (
+        typeof policy.rotator === "string" &&
+        (typeof policy.interval === "string" ||
+            typeof policy.interval === "number")
+    );
+}
+
+/** Read the rotation policy from secret metadata, if any. */
+export function getRotationPolicy(
+    metadata: Record<string, unknown> | undefined,
+): RotationPolicy | undefined {
+    const policy = metadata?.[ROTATION_METADATA_KEY];
+    return isRotationPolicy(policy) ? policy : undefined;
+}
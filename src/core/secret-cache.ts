@@ -0,0 +1,168 @@
+import type {
+    OneclawResponse,
+    SecretCacheOptions,
+    SecretResponse,
+} from "../types";
+
+interface CacheEntry {
+    response: OneclawResponse<SecretResponse>;
+    freshUntil: number;
+    staleUntil: number;
+}
+
+/** Result of a cache lookup. */
+export interface SecretCacheHit {
+    response: OneclawResponse<SecretResponse>;
+    /** True when past the TTL but inside the stale-while-revalidate window. */
+    stale: boolean;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory LRU cache of decrypted `secrets.get` responses, keyed by
+ * vault, path and (for pinned reads) version. Values never leave the
+ * process; `clear()` drops every reference to them.
+ *
+ * Writes race with reads: take a `generation()` before fetching and pass
+ * it to `store`, which ignores results that started before the most
+ * recent invalidation.
+ */
+export class SecretCache {
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly refreshing = new Map<string, Promise<void>>();
+    private readonly ttlMs: NonNullable<SecretCacheOptions["ttlMs"]>;
+    private readonly staleMs: number;
+    private readonly maxEntries: number;
+    private gen = 0;
+
+    constructor(options: SecretCacheOptions = {}) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+        this.staleMs = Math.max(0, options.staleWhileRevalidateMs ?? 0);
+        this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    }
+
+    /** Number of cached secrets. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Token identifying the current invalidation epoch. */
+    generation(): number {
+        return this.gen;
+    }
+
+    /**
+     * Return a copy of the cached response, marking it most recently
+     * used. Expired entries (past the stale window) are dropped.
+     */
+    lookup(
+        vaultId: string,
+        path: string,
+        version?: number,
+    ): SecretCacheHit | undefined {
+        const id = cacheKey(vaultId, path, version);
+        const entry = this.entries.get(id);
+        if (!entry) return undefined;
+        const now = Date.now();
+        if (now >= entry.staleUntil) {
+            this.entries.delete(id);
+            return undefined;
+        }
+        this.entries.delete(id);
+        this.entries.set(id, entry);
+        const { response } = entry;
+        return {
+            response: { ...response, data: { ...response.data! } },
+            stale: now >= entry.freshUntil,
+        };
+    }
+
+    /**
+     * Record the outcome of a fetch started at `generation`. Successful
+     * responses are cached; `not_found` drops any cached value; other
+     * errors leave the cache untouched.
+     */
+    store(
+        generation: number,
+        vaultId: string,
+        path: string,
+        version: number | undefined,
+        response: OneclawResponse<SecretResponse>,
+    ): void {
+        if (generation !== this.gen) return;
+        const id = cacheKey(vaultId, path, version);
+        if (response.error?.type === "not_found") {
+            this.entries.delete(id);
+            return;
+        }
+        if (!response.data) return;
+
+        const now = Date.now();
+        const ttl =
+            typeof this.ttlMs === "function"
+                ? this.ttlMs(vaultId, path)
+                : this.ttlMs;
+        let freshUntil = now + Math.max(0, ttl);
+        let staleUntil = freshUntil + this.staleMs;
+        const expiresAt = response.data.expires_at
+            ? Date.parse(response.data.expires_at)
+            : NaN;
+        if (!Number.isNaN(expiresAt)) {
+            freshUntil = Math.min(freshUntil, expiresAt);
+            staleUntil = Math.min(staleUntil, expiresAt);
+        }
+        if (staleUntil <= now) return;
+
+        this.entries.delete(id);
+        this.entries.set(id, { response, freshUntil, staleUntil });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    /**
+     * Refresh a stale entry in the background. Concurrent calls for the
+     * same secret share one request; failures are ignored and the stale
+     * value is served until its window ends.
+     */
+    revalidate(
+        vaultId: string,
+        path: string,
+        version: number | undefined,
+        fetch: () => Promise<OneclawResponse<SecretResponse>>,
+    ): void {
+        const id = cacheKey(vaultId, path, version);
+        if (this.refreshing.has(id)) return;
+        const generation = this.gen;
+        const pending = fetch()
+            .then((res) => this.store(generation, vaultId, path, version, res))
+            .catch(() => {})
+            .finally(() => this.refreshing.delete(id));
+        this.refreshing.set(id, pending);
+    }
+
+    /**
+     * Drop every cached version of one secret, or of a whole vault when
+     * `path` is omitted.
+     */
+    invalidate(vaultId: string, path?: string): void {
+        this.gen++;
+        const prefix =
+            path === undefined ? `${vaultId}\u0000` : `${vaultId}\u0000${path}\u0000`;
+        for (const id of [...this.entries.keys()]) {
+            if (id.startsWith(prefix)) this.entries.delete(id);
+        }
+    }
+
+    /** Drop every cached value. */
+    clear(): void {
+        this.gen++;
+        this.entries.clear();
+    }
+}
+
+function cacheKey(vaultId: string, path: string, version?: number): string {
+    return `${vaultId}\u0000${path}\u0000${version ?? ""}`;
+}
@@ -0,0 +1,85 @@
+import type { OneclawResponse } from "../types";
+import { OneclawError } from "./errors";
+
+const REDACTED = "[REDACTED]";
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Held outside the instance so no enumeration, inspection or
+// serialisation of a SecretValue can reach the bytes.
+const buffers = new WeakMap<SecretValue, Uint8Array>();
+
+/**
+ * A secret that prints as `[REDACTED]` everywhere — `String()`,
+ * template literals, `JSON.stringify` and `console.log`/`util.inspect`.
+ * Call `reveal()` to read it and `dispose()` to zero and drop the
+ * underlying buffer once it is no longer needed.
+ *
+ * @example
+ * ```ts
+ * const { data } = await client.secrets.get(vaultId, "db/pass", { wrap: true });
+ * logger.info({ secret: data });          // value: "[REDACTED]"
+ * await db.connect({ password: data!.value.reveal() });
+ * data!.value.dispose();
+ * ```
+ */
+export class SecretValue {
+    constructor(value: string) {
+        buffers.set(this, encoder.encode(value));
+    }
+
+    /** True once `dispose()` has been called. */
+    get disposed(): boolean {
+        return !buffers.has(this);
+    }
+
+    /** Return the plaintext. Throws once the value has been disposed. */
+    reveal(): string {
+        const bytes = buffers.get(this);
+        if (!bytes) {
+            throw new OneclawError(
+                "SecretValue has been disposed",
+                0,
+                "secret_disposed",
+            );
+        }
+        return decoder.decode(bytes);
+    }
+
+    /**
+     * Overwrite the buffer with zeros and drop it. Strings previously
+     * returned by `reveal()` are unaffected. Safe to call repeatedly.
+     */
+    dispose(): void {
+        buffers.get(this)?.fill(0);
+        buffers.delete(this);
+    }
+
+    toString(): string {
+        return REDACTED;
+    }
+
+    toJSON(): string {
+        return REDACTED;
+    }
+
+    [Symbol.for("nodejs.util.inspect.custom")](): string {
+        return REDACTED;
+    }
+}
+
+/** `T` with its plaintext `value` replaced by a `SecretValue`. */
+export type WithSecretValue<T extends { value: string }> = Omit<T, "value"> & {
+    value: SecretValue;
+};
+
+/** Replace the plaintext `value` in a response envelope with a `SecretValue`. */
+export function wrapSecretResponse<T extends { value: string }>(
+    res: OneclawResponse<T>,
+): OneclawResponse<WithSecretValue<T>> {
+    if (!res.data) return { ...res, data: null };
+    return {
+        ...res,
+        data: { ...res.data, value: new SecretValue(res.data.value) },
+    };
+}
@@ -0,0 +1,709 @@
+/**
+ * Declarative vault, grant, agent and chain configuration.
+ *
+ * Describe the desired state as a plain object (load it from JSON or
+ * YAML yourself), `plan` it against live state, review the plan, then
+ * `apply` it:
+ *
+ * ```ts
+ * import { declarative } from "@1claw/sdk";
+ *
+ * const plan = await declarative.plan(client, spec);
+ * console.log(declarative.formatPlan(plan));
+ * const result = await declarative.apply(client, plan);
+ * ```
+ *
+ * Plans never contain secret values: the spec has no place for them and
+ * planning reads only vault, policy, agent and chain metadata. API keys
+ * issued for newly created agents are returned once, in
+ * `ApplyResult.agentApiKeys`.
+ */
+
+import type { OneclawClient } from "./core/client";
+import { OneclawError } from "./core/errors";
+import type {
+    AgentResponse,
+    ChainResponse,
+    CreateAgentRequest,
+    CreateChainRequest,
+    CreatePolicyRequest,
+    CreateVaultRequest,
+    OneclawResponse,
+    PolicyResponse,
+    UpdateAgentRequest,
+    UpdateChainRequest,
+    UpdatePolicyRequest,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Spec
+// ---------------------------------------------------------------------------
+
+/**
+ * A vault access grant. Identify the principal by `principal_id`, or
+ * by `agent` — the name of an agent declared in the spec or already
+ * present in the org.
+ */
+export type GrantSpec = Omit<
+    CreatePolicyRequest,
+    "principal_type" | "principal_id"
+> & {
+    principal_type?: CreatePolicyRequest["principal_type"];
+    principal_id?: string;
+    agent?: string;
+};
+
+/** A vault, identified by name. */
+export interface VaultSpec {
+    name: string;
+    description?: string;
+    /**
+     * The complete set of grants on this vault. When present, grants not
+     * listed here are revoked; when omitted, grants are left untouched.
+     */
+    grants?: GrantSpec[];
+}
+
+/** An agent, identified by name. Unset fields are left untouched. */
+export interface AgentSpec extends Omit<CreateAgentRequest, "vault_ids"> {
+    /** Names of vaults (declared in the spec or existing) the agent may use. */
+    vaults?: string[];
+    is_active?: boolean;
+}
+
+/** A chain registry entry, identified by name. Requires admin access. */
+export type ChainSpec = CreateChainRequest;
+
+/** Desired state for `plan`. Every section is optional. */
+export interface DeclarativeSpec {
+    vaults?: VaultSpec[];
+    agents?: AgentSpec[];
+    chains?: ChainSpec[];
+}
+
+// ---------------------------------------------------------------------------
+// Plan
+// ---------------------------------------------------------------------------
+
+/** One field that differs between live and desired state. */
+export interface PlanChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+export interface VaultPlanStep {
+    kind: "vault";
+    action: "create";
+    vault: string;
+    request: CreateVaultRequest;
+}
+
+export interface AgentPlanStep {
+    kind: "agent";
+    action: "create" | "update";
+    agent: string;
+    /** Present for updates; absent when the agent is created by this plan. */
+    agentId?: string;
+    /** Vaults to attach. `id` is absent for vaults created by this plan. */
+    vaults?: { name: string; id?: string }[];
+    request: Omit<CreateAgentRequest, "vault_ids"> | UpdateAgentRequest;
+    changes: PlanChange[];
+}
+
+export interface GrantPlanStep {
+    kind: "grant";
+    action: "create" | "update" | "revoke";
+    vault: string;
+    /** Absent when the vault is created by this plan. */
+    vaultId?: string;
+    /** Present for updates and revokes. */
+    policyId?: string;
+    principal: {
+        type: "user" | "agent";
+        /** Absent when the agent is created by this plan. */
+        id?: string;
+        /** Agent name, when the grant referenced one. */
+        agent?: string;
+    };
+    secret_path_pattern: string;
+    /** Absent for revokes. */
+    request?: UpdatePolicyRequest & { permissions: string[] };
+    changes: PlanChange[];
+}
+
+export interface ChainPlanStep {
+    kind: "chain";
+    action: "create" | "update";
+    chain: string;
+    /** Present for updates. */
+    chainId?: string;
+    request: CreateChainRequest | UpdateChainRequest;
+    changes: PlanChange[];
+}
+
+export type PlanStep =
+    | VaultPlanStep
+    | AgentPlanStep
+    | GrantPlanStep
+    | ChainPlanStep;
+
+/** Ordered steps produced by `plan`. Empty when live state matches. */
+export interface Plan {
+    steps: PlanStep[];
+}
+
+/** Outcome of `apply`. Stops at the first failing step. */
+export interface ApplyResult {
+    applied: PlanStep[];
+    failed?: {
+        step: PlanStep;
+        error: { type: string; message: string; detail?: string };
+    };
+    /** IDs of vaults and agents created by this apply, by name. */
+    created: { vaults: Record<string, string>; agents: Record<string, string> };
+    /** API keys issued to newly created agents, by name. Shown once. */
+    agentApiKeys: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// plan
+// ---------------------------------------------------------------------------
+
+const AGENT_UPDATE_FIELDS = [
+    "scopes",
+    "is_active",
+    "expires_at",
+    "intents_api_enabled",
+    "tx_to_allowlist",
+    "tx_max_value_eth",
+    "tx_daily_limit_eth",
+    "tx_allowed_chains",
+    "token_ttl_seconds",
+    "shroud_enabled",
+    "shroud_config",
+] as const;
+
+const CHAIN_UPDATE_FIELDS = [
+    "display_name",
+    "rpc_url",
+    "ws_url",
+    "explorer_url",
+    "native_currency",
+    "is_testnet",
+    "is_enabled",
+] as const;
+
+/**
+ * Diff a spec against live state (`vault.list`, `access.listGrants`,
+ * `agents.list`, and `chains.adminList` when chains are declared).
+ * Throws `OneclawError` if live state cannot be read, or `Error` if the
+ * spec references an unknown vault or agent.
+ */
+export async function plan(
+    client: OneclawClient,
+    spec: DeclarativeSpec,
+): Promise<Plan> {
+    const vaultSpecs = spec.vaults ?? [];
+    const agentSpecs = spec.agents ?? [];
+    const chainSpecs = spec.chains ?? [];
+
+    const liveVaults = (await unwrap(client.vault.list())).vaults;
+    const liveAgents =
+        agentSpecs.length > 0 || vaultSpecs.some((v) => v.grants)
+            ? (await unwrap(client.agents.list())).agents
+            : [];
+
+    const vaultIds = new Map(liveVaults.map((v) => [v.name, v.id]));
+    const agentsByName = new Map(liveAgents.map((a) => [a.name, a]));
+    const declaredVaults = new Set(vaultSpecs.map((v) => v.name));
+    const declaredAgents = new Set(agentSpecs.map((a) => a.name));
+
+    const steps: PlanStep[] = [];
+
+    for (const v of vaultSpecs) {
+        if (vaultIds.has(v.name)) continue;
+        steps.push({
+            kind: "vault",
+            action: "create",
+            vault: v.name,
+            request: { name: v.name, description: v.description },
+        });
+    }
+
+    for (const a of agentSpecs) {
+        for (const name of a.vaults ?? []) {
+            if (!vaultIds.has(name) && !declaredVaults.has(name)) {
+                throw new Error(
+                    `Agent "${a.name}" references unknown vault "${name}"`,
+                );
+            }
+        }
+        const live = agentsByName.get(a.name);
+        steps.push(...planAgent(a, live, vaultIds));
+    }
+
+    for (const v of vaultSpecs) {
+        if (!v.grants) continue;
+        const vaultId = vaultIds.get(v.name);
+        const live = vaultId
+            ? (await unwrap(client.access.listGrants(vaultId))).policies
+            : [];
+        steps.push(
+            ...planGrants(v, vaultId, live, (name) => {
+                const agent = agentsByName.get(name);
+                if (agent) return agent.id;
+                if (declaredAgents.has(name)) return undefined;
+                throw new Error(
+                    `Grant on vault "${v.name}" references unknown agent "${name}"`,
+                );
+            }),
+        );
+    }
+
+    if (chainSpecs.length > 0) {
+        const liveChains = (await unwrap(client.chains.adminList())).chains;
+        const chainsByName = new Map(liveChains.map((c) => [c.name, c]));
+        for (const c of chainSpecs) {
+            const step = planChain(c, chainsByName.get(c.name));
+            if (step) steps.push(step);
+        }
+    }
+
+    return { steps };
+}
+
+function planAgent(
+    spec: AgentSpec,
+    live: AgentResponse | undefined,
+    vaultIds: Map<string, string>,
+): AgentPlanStep[] {
+    const { vaults: vaultNames, is_active: isActive, ...create } = spec;
+    const vaults = vaultNames?.map((name) => ({ name, id: vaultIds.get(name) }));
+    if (!live) {
+        const steps: AgentPlanStep[] = [
+            {
+                kind: "agent",
+                action: "create",
+                agent: spec.name,
+                vaults,
+                request: create,
+                changes: [],
+            },
+        ];
+        // Agents are always created active; deactivate in a second step.
+        if (isActive === false) {
+            steps.push({
+                kind: "agent",
+                action: "update",
+                agent: spec.name,
+                request: { is_active: false },
+                changes: [{ field: "is_active", from: true, to: false }],
+            });
+        }
+        return steps;
+    }
+
+    const changes: PlanChange[] = [];
+    const request: UpdateAgentRequest = {};
+    for (const field of AGENT_UPDATE_FIELDS) {
+        const desired = spec[field];
+        if (desired === undefined) continue;
+        const current = live[field];
+        if (matches(desired, current)) continue;
+        changes.push({ field, from: current, to: desired });
+        (request as Record<string, unknown>)[field] = desired;
+    }
+
+    if (vaults) {
+        // Vaults this plan creates have no ID yet, so never match.
+        const current = [...(live.vault_ids ?? [])].sort();
+        const desired = vaults.map((v) => v.id ?? v.name).sort();
+        if (!matches(desired, current)) {
+            changes.push({ field: "vault_ids", from: current, to: vaultNames });
+        }
+    }
+
+    if (changes.length === 0) return [];
+    return [
+        {
+            kind: "agent",
+            action: "update",
+            agent: spec.name,
+            agentId: live.id,
+            vaults,
+            request,
+            changes,
+        },
+    ];
+}
+
+function planGrants(
+    vault: VaultSpec,
+    vaultId: string | undefined,
+    live: PolicyResponse[],
+    resolveAgent: (name: string) => string | undefined,
+): GrantPlanStep[] {
+    const steps: GrantPlanStep[] = [];
+    const remaining = [...live];
+
+    for (const grant of vault.grants ?? []) {
+        const principal = grantPrincipal(vault.name, grant, resolveAgent);
+        const index = principal.id
+            ? remaining.findIndex(
+                  (p) =>
+                      p.principal_type === principal.type &&
+                      p.principal_id === principal.id &&
+                      p.secret_path_pattern === grant.secret_path_pattern,
+              )
+            : -1;
+        const request = {
+            permissions: grant.permissions,
+            conditions: grant.conditions,
+            expires_at: grant.expires_at,
+        };
+        const base = {
+            kind: "grant" as const,
+            vault: vault.name,
+            vaultId,
+            principal,
+            secret_path_pattern: grant.secret_path_pattern,
+        };
+
+        if (index === -1) {
+            steps.push({ ...base, action: "create", request, changes: [] });
+            continue;
+        }
+
+        const [current] = remaining.splice(index, 1);
+        const changes: PlanChange[] = [];
+        if (!matches([...grant.permissions].sort(), [...current.permissions].sort())) {
+            changes.push({
+                field: "permissions",
+                from: current.permissions,
+                to: grant.permissions,
+            });
+        }
+        if (
+            grant.conditions !== undefined &&
+            !matches(grant.conditions, current.conditions ?? {})
+        ) {
+            changes.push({
+                field: "conditions",
+                from: current.conditions,
+                to: grant.conditions,
+            });
+        }
+        if (
+            grant.expires_at !== undefined &&
+            Date.parse(grant.expires_at) !== Date.parse(current.expires_at ?? "")
+        ) {
+            changes.push({
+                field: "expires_at",
+                from: current.expires_at,
+                to: grant.expires_at,
+            });
+        }
+        if (changes.length > 0) {
+            steps.push({
+                ...base,
+                action: "update",
+                policyId: current.id,
+                request,
+                changes,
+            });
+        }
+    }
+
+    for (const policy of remaining) {
+        steps.push({
+            kind: "grant",
+            action: "revoke",
+            vault: vault.name,
+            vaultId,
+            policyId: policy.id,
+            principal: {
+                type: policy.principal_type as "user" | "agent",
+                id: policy.principal_id,
+            },
+            secret_path_pattern: policy.secret_path_pattern,
+            changes: [],
+        });
+    }
+    return steps;
+}
+
+function grantPrincipal(
+    vaultName: string,
+    grant: GrantSpec,
+    resolveAgent: (name: string) => string | undefined,
+): GrantPlanStep["principal"] {
+    if (grant.agent) {
+        return {
+            type: "agent",
+            id: resolveAgent(grant.agent),
+            agent: grant.agent,
+        };
+    }
+    if (!grant.principal_id || !grant.principal_type) {
+        throw new Error(
+            `Grant "${grant.secret_path_pattern}" on vault "${vaultName}" needs either "agent" or "principal_type" + "principal_id"`,
+        );
+    }
+    return { type: grant.principal_type, id: grant.principal_id };
+}
+
+function planChain(
+    spec: ChainSpec,
+    live: ChainResponse | undefined,
+): ChainPlanStep | undefined {
+    if (!live) {
+        return {
+            kind: "chain",
+            action: "create",
+            chain: spec.name,
+            request: spec,
+            changes: [],
+        };
+    }
+    const changes: PlanChange[] = [];
+    const request: UpdateChainRequest = {};
+    for (const field of CHAIN_UPDATE_FIELDS) {
+        const desired = spec[field];
+        if (desired === undefined || matches(desired, live[field])) continue;
+        changes.push({ field, from: live[field], to: desired });
+        (request as Record<string, unknown>)[field] = desired;
+    }
+    if (changes.length === 0) return undefined;
+    return {
+        kind: "chain",
+        action: "update",
+        chain: spec.name,
+        chainId: live.id,
+        request,
+        changes,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// apply
+// ---------------------------------------------------------------------------
+
+/** Dependency order: vaults, then agents, then grants (revokes last), then chains. */
+function stepRank(step: PlanStep): number {
+    switch (step.kind) {
+        case "vault":
+            return 0;
+        case "agent":
+            return 1;
+        case "grant":
+            return step.action === "revoke" ? 3 : 2;
+        case "chain":
+            return 4;
+    }
+}
+
+/**
+ * Execute a plan in dependency order. Vault and agent IDs created by
+ * earlier steps are resolved for later ones. Stops at the first error
+ * and reports what was applied.
+ */
+export async function apply(
+    client: OneclawClient,
+    planned: Plan,
+): Promise<ApplyResult> {
+    const steps = planned.steps
+        .map((step, i) => ({ step, i }))
+        .sort((a, b) => stepRank(a.step) - stepRank(b.step) || a.i - b.i)
+        .map(({ step }) => step);
+
+    const result: ApplyResult = {
+        applied: [],
+        created: { vaults: {}, agents: {} },
+        agentApiKeys: {},
+    };
+    let vaultIds: Map<string, string> | undefined;
+    const vaultId = async (name: string, known?: string) => {
+        if (known) return known;
+        if (result.created.vaults[name]) return result.created.vaults[name];
+        vaultIds ??= new Map(
+            (await unwrap(client.vault.list())).vaults.map((v) => [v.name, v.id]),
+        );
+        const id = vaultIds.get(name);
+        if (!id) throw new Error(`Unknown vault "${name}"`);
+        return id;
+    };
+    const agentId = async (step: GrantPlanStep) => {
+        if (step.principal.id) return step.principal.id;
+        const id = result.created.agents[step.principal.agent ?? ""];
+        if (!id) throw new Error(`Unknown agent "${step.principal.agent}"`);
+        return id;
+    };
+
+    for (const step of steps) {
+        let res: OneclawResponse<unknown>;
+        try {
+            res = await applyStep(client, step, result, vaultId, agentId);
+        } catch (err) {
+            if (!(err instanceof Error)) throw err;
+            result.failed = {
+                step,
+                error: {
+                    type: err instanceof OneclawError ? err.type : "apply_error",
+                    message: err.message,
+                },
+            };
+            return result;
+        }
+        if (res.error) {
+            result.failed = { step, error: res.error };
+            return result;
+        }
+        result.applied.push(step);
+    }
+    return result;
+}
+
+async function applyStep(
+    client: OneclawClient,
+    step: PlanStep,
+    result: ApplyResult,
+    vaultId: (name: string, known?: string) => Promise<string>,
+    agentId: (step: GrantPlanStep) => Promise<string>,
+): Promise<OneclawResponse<unknown>> {
+    switch (step.kind) {
+        case "vault": {
+            const res = await client.vault.create(step.request);
+            if (res.data) result.created.vaults[step.vault] = res.data.id;
+            return res;
+        }
+        case "agent": {
+            const vault_ids = step.vaults
+                ? await Promise.all(step.vaults.map((v) => vaultId(v.name, v.id)))
+                : undefined;
+            if (step.action === "create") {
+                const res = await client.agents.create({
+                    ...(step.request as CreateAgentRequest),
+                    vault_ids,
+                });
+                if (res.data) {
+                    result.created.agents[step.agent] = res.data.agent.id;
+                    if (res.data.api_key) {
+                        result.agentApiKeys[step.agent] = res.data.api_key;
+                    }
+                }
+                return res;
+            }
+            const id = step.agentId ?? result.created.agents[step.agent];
+            if (!id) throw new Error(`Unknown agent "${step.agent}"`);
+            return client.agents.update(id, {
+                ...(step.request as UpdateAgentRequest),
+                ...(vault_ids ? { vault_ids } : {}),
+            });
+        }
+        case "grant": {
+            const id = await vaultId(step.vault, step.vaultId);
+            if (step.action === "revoke") {
+                return client.access.revoke(id, step.policyId!);
+            }
+            if (step.action === "update") {
+                return client.access.update(id, step.policyId!, step.request!);
+            }
+            const principalId = await agentId(step);
+            const grant = step.principal.type === "agent"
+                ? client.access.grantAgent.bind(client.access)
+                : client.access.grantHuman.bind(client.access);
+            return grant(id, principalId, step.request!.permissions, {
+                secretPathPattern: step.secret_path_pattern,
+                conditions: step.request!.conditions,
+                expires_at: step.request!.expires_at,
+            });
+        }
+        case "chain":
+            return step.action === "create"
+                ? client.chains.create(step.request as CreateChainRequest)
+                : client.chains.update(step.chainId!, step.request);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// formatPlan
+// ---------------------------------------------------------------------------
+
+const ACTION_SYMBOL = { create: "+", update: "~", revoke: "-" } as const;
+
+/** Render a plan as human-readable text, one step per line. */
+export function formatPlan(planned: Plan): string {
+    if (planned.steps.length === 0) return "No changes.";
+    const lines: string[] = [];
+    for (const step of planned.steps) {
+        lines.push(`${ACTION_SYMBOL[step.action]} ${describeStep(step)}`);
+        if (step.kind === "vault") continue;
+        for (const c of step.changes) {
+            lines.push(
+                `    ${c.field}: ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`,
+            );
+        }
+    }
+    return lines.join("\n");
+}
+
+function describeStep(step: PlanStep): string {
+    switch (step.kind) {
+        case "vault":
+            return `vault "${step.vault}"`;
+        case "agent":
+            return `agent "${step.agent}"`;
+        case "chain":
+            return `chain "${step.chain}"`;
+        case "grant": {
+            const who = step.principal.agent
+                ? `agent "${step.principal.agent}"`
+                : `${step.principal.type} ${step.principal.id}`;
+            const perms = step.request
+                ? ` [${step.request.permissions.join(", ")}]`
+                : "";
+            return `grant on vault "${step.vault}": ${who} ${step.secret_path_pattern}${perms}`;
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Unwrap an envelope, throwing its error as a `OneclawError`. */
+async function unwrap<T>(pending: Promise<OneclawResponse<T>>): Promise<T> {
+    const res = await pending;
+    if (res.error) {
+        throw new OneclawError(
+            res.error.message,
+            res.meta?.status ?? 0,
+            res.error.type,
+            res.error.detail,
+        );
+    }
+    return res.data as T;
+}
+
+/**
+ * Whether the desired value is satisfied by the live one. Objects match
+ * when every key in `desired` matches, so server-side defaults on keys
+ * the spec leaves out do not count as drift.
+ */
+function matches(desired: unknown, live: unknown): boolean {
+    if (Array.isArray(desired)) {
+        return (
+            Array.isArray(live) &&
+            desired.length === live.length &&
+            desired.every((d, i) => matches(d, live[i]))
+        );
+    }
+    if (desired && typeof desired === "object") {
+        if (!live || typeof live !== "object") return false;
+        return Object.entries(desired).every(([k, v]) =>
+            v === undefined || matches(v, (live as Record<string, unknown>)[k]),
+        );
+    }
+    return desired === live;
+}
@@ -0,0 +1,78 @@
+import type { OneclawClient } from "./core/client";
+import { OneclawError } from "./core/errors";
+import type { EnvExportOptions } from "./resources/secrets";
+
+/** Options for `loadIntoEnv`. */
+export interface LoadIntoEnvOptions extends EnvExportOptions {
+    /** Replace variables that are already set (default: false). */
+    override?: boolean;
+    /** Object to populate (default: `process.env`). */
+    target?: Record<string, string | undefined>;
+}
+
+/** Result of `loadIntoEnv`. */
+export interface LoadIntoEnvResult {
+    /** Variable names that were set. */
+    loaded: string[];
+    /** Variable names left alone because they were already set. */
+    skipped: string[];
+}
+
+/**
+ * Populate `process.env` from the secrets under `prefix`, typically at
+ * startup before the rest of the service reads its configuration.
+ * Variables that are already set win unless `override` is true. Throws
+ * `OneclawError` if any secret cannot be read, so a service never
+ * starts with a partial environment.
+ *
+ * @example
+ * ```ts
+ * import { createClient, loadIntoEnv } from "@1claw/sdk";
+ *
+ * await loadIntoEnv(createClient({ ... }), vaultId, { prefix: "api/" });
+ * // api/database-url → process.env.DATABASE_URL
+ * ```
+ */
+export async function loadIntoEnv(
+    client: OneclawClient,
+    vaultId: string,
+    options: LoadIntoEnvOptions = {},
+): Promise<LoadIntoEnvResult> {
+    const { override = false, target, ...envOptions } = options;
+    const env = target ?? processEnv();
+
+    const res = await client.secrets.getEnv(vaultId, envOptions);
+    if (res.error) {
+        throw new OneclawError(
+            res.error.message,
+            res.meta?.status ?? 0,
+            res.error.type,
+            res.error.detail,
+        );
+    }
+
+    const result: LoadIntoEnvResult = { loaded: [], skipped: [] };
+    for (const [name, value] of Object.entries(res.data!)) {
+        if (!override && env[name] !== undefined) {
+            result.skipped.push(name);
+            continue;
+        }
+        env[name] = value;
+        result.loaded.push(name);
+    }
+    return result;
+}
+
+function processEnv(): Record<string, string | undefined> {
+    const env = (
+        globalThis as {
+            process?: { env?: Record<string, string | undefined> };
+        }
+    ).process?.env;
+    if (!env) {
+        throw new Error(
+            "process.env is not available in this runtime; pass options.target",
+        );
+    }
+    return env;
+}
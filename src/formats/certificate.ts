@@ -0,0 +1,106 @@
+/**
+ * X.509 certificate chain parsing for `certificate` secrets.
+ */
+
+import { SecretFormatError } from "../core/errors";
+import {
+    parsePem,
+    readDer,
+    derChildren,
+    derOid,
+    derIntegerHex,
+    derString,
+    derTime,
+    expectSequence,
+    KEY_ALGORITHMS,
+    type DerElement,
+} from "./der";
+
+/** Fields of one certificate in a chain. */
+export interface CertificateInfo {
+    /** Distinguished name, e.g. `C=US, O=Example, CN=api.example.com`. */
+    subject: string;
+    issuer: string;
+    /** Serial number as lowercase hex. */
+    serialNumber: string;
+    /** ISO 8601 start of validity. */
+    notBefore: string;
+    /** ISO 8601 end of validity. */
+    notAfter: string;
+    /** Public key algorithm, e.g. "rsa", "ec", "ed25519". */
+    publicKeyAlgorithm: string;
+    /** This certificate's PEM block. */
+    pem: string;
+}
+
+/** A parsed PEM certificate chain, leaf first as stored. */
+export interface CertificateChain {
+    certificates: CertificateInfo[];
+    /** Earliest `notAfter` in the chain — when the chain stops being valid. */
+    notAfter: string;
+}
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+    "2.5.4.3": "CN",
+    "2.5.4.5": "serialNumber",
+    "2.5.4.6": "C",
+    "2.5.4.7": "L",
+    "2.5.4.8": "ST",
+    "2.5.4.10": "O",
+    "2.5.4.11": "OU",
+    "1.2.840.113549.1.9.1": "emailAddress",
+};
+
+/**
+ * Parse a PEM certificate chain. Throws `SecretFormatError` if it is
+ * empty, truncated, or contains anything other than certificates.
+ */
+export function parseCertificateChain(text: string): CertificateChain {
+    const certificates = parsePem(text).map((block) => {
+        if (block.label !== "CERTIFICATE") {
+            throw new SecretFormatError(
+                `Unexpected "${block.label}" block in certificate chain`,
+            );
+        }
+        return { ...parseCertificate(readDer(block.der)), pem: block.text };
+    });
+    const notAfter = certificates
+        .map((c) => c.notAfter)
+        .reduce((a, b) => (a < b ? a : b));
+    return { certificates, notAfter };
+}
+
+function parseCertificate(cert: DerElement): Omit<CertificateInfo, "pem"> {
+    try {
+        const [tbs] = expectSequence(cert, 3);
+        const fields = expectSequence(tbs, 6);
+        // Skip the optional [0] EXPLICIT version.
+        const [serial, , issuer, validity, subject, spki] =
+            fields[0].tag === 0xa0 ? fields.slice(1) : fields;
+        const [notBefore, notAfter] = expectSequence(validity, 2);
+        const [algorithm] = expectSequence(expectSequence(spki, 2)[0], 1);
+        const oid = derOid(algorithm);
+        return {
+            subject: formatName(subject),
+            issuer: formatName(issuer),
+            serialNumber: derIntegerHex(serial),
+            notBefore: derTime(notBefore),
+            notAfter: derTime(notAfter),
+            publicKeyAlgorithm: KEY_ALGORITHMS[oid] ?? oid,
+        };
+    } catch (err) {
+        if (err instanceof SecretFormatError) throw err;
+        throw new SecretFormatError("Malformed X.509 certificate");
+    }
+}
+
+function formatName(name: DerElement): string {
+    return derChildren(name)
+        .flatMap((rdn) => derChildren(rdn))
+        .map((attr) => {
+            const [type, value] = expectSequence(attr, 2);
+            const oid = derOid(type);
+            return `${NAME_ATTRIBUTES[oid] ?? oid}=${derString(value)}`;
+        })
+        .join(", ");
+}
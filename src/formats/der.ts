@@ -0,0 +1,206 @@
+/**
+ * Minimal PEM and DER (ASN.1) reading — just enough to inspect
+ * certificates and keys without a crypto dependency. Malformed or
+ * truncated input throws `SecretFormatError`.
+ */
+
+import { SecretFormatError } from "../core/errors";
+import { fromBase64 } from "../cmek";
+
+/** One `-----BEGIN <label>-----` … `-----END <label>-----` block. */
+export interface PemBlock {
+    label: string;
+    /** RFC 1421 headers such as `Proc-Type` (legacy encrypted keys). */
+    headers: Record<string, string>;
+    der: Uint8Array;
+    /** The block as written, from BEGIN to END line inclusive. */
+    text: string;
+}
+
+/** A decoded DER element. `content` is a view into the original buffer. */
+export interface DerElement {
+    tag: number;
+    content: Uint8Array;
+}
+
+/** Public key algorithm OIDs (SubjectPublicKeyInfo / PKCS#8). */
+export const KEY_ALGORITHMS: Record<string, string> = {
+    "1.2.840.113549.1.1.1": "rsa",
+    "1.2.840.113549.1.1.10": "rsa-pss",
+    "1.2.840.10045.2.1": "ec",
+    "1.3.101.110": "x25519",
+    "1.3.101.111": "x448",
+    "1.3.101.112": "ed25519",
+    "1.3.101.113": "ed448",
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Extract every PEM block from `text`. Throws if a block has no END
+ * line, mismatched labels or invalid base64, or if there are none.
+ */
+export function parsePem(text: string): PemBlock[] {
+    const lines = text.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: PemBlock[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const begin = /^-----BEGIN ([A-Z0-9 ]+)-----$/.exec(lines[i].trim());
+        if (!begin) continue;
+        const label = begin[1];
+        const start = i;
+        const headers: Record<string, string> = {};
+        let body = "";
+        for (i++; ; i++) {
+            if (i >= lines.length) {
+                throw new SecretFormatError(
+                    `PEM block "${label}" has no END line (truncated?)`,
+                );
+            }
+            const line = lines[i].trim();
+            if (line.startsWith("-----END ")) {
+                if (line !== `-----END ${label}-----`) {
+                    throw new SecretFormatError(
+                        `PEM block "${label}" ends with "${line}"`,
+                    );
+                }
+                break;
+            }
+            const header = /^([A-Za-z-]+):\s*(.*)$/.exec(line);
+            if (header && body === "") headers[header[1]] = header[2];
+            else body += line;
+        }
+        if (body === "" || body.length % 4 !== 0 || !BASE64_PATTERN.test(body)) {
+            throw new SecretFormatError(
+                `PEM block "${label}" does not contain valid base64`,
+            );
+        }
+        blocks.push({
+            label,
+            headers,
+            der: fromBase64(body),
+            text: lines.slice(start, i + 1).map((l) => l.trim()).join("\n"),
+        });
+    }
+    if (blocks.length === 0) {
+        throw new SecretFormatError("No PEM block found");
+    }
+    return blocks;
+}
+
+/** Read the single DER element that must fill `bytes` exactly. */
+export function readDer(bytes: Uint8Array): DerElement {
+    const [element, end] = readElement(bytes, 0);
+    if (end !== bytes.length) {
+        throw new SecretFormatError("Unexpected data after DER element");
+    }
+    return element;
+}
+
+/** Read the children of a constructed element (SEQUENCE, SET, [n]). */
+export function derChildren(element: DerElement): DerElement[] {
+    const out: DerElement[] = [];
+    for (let offset = 0; offset < element.content.length; ) {
+        const [child, end] = readElement(element.content, offset);
+        out.push(child);
+        offset = end;
+    }
+    return out;
+}
+
+/** Decode an OBJECT IDENTIFIER to dotted form. */
+export function derOid(element: DerElement): string {
+    const bytes = element.content;
+    if (element.tag !== 0x06 || bytes.length === 0) {
+        throw new SecretFormatError("Expected an OBJECT IDENTIFIER");
+    }
+    const parts = [Math.min(2, Math.floor(bytes[0] / 40)), 0];
+    parts[1] = bytes[0] - parts[0] * 40;
+    let value = 0;
+    for (let i = 1; i < bytes.length; i++) {
+        value = value * 128 + (bytes[i] & 0x7f);
+        if (!(bytes[i] & 0x80)) {
+            parts.push(value);
+            value = 0;
+        }
+    }
+    return parts.join(".");
+}
+
+/** Bit length of an unsigned INTEGER (e.g. an RSA modulus). */
+export function derIntegerBits(element: DerElement): number {
+    let bytes = element.content;
+    while (bytes.length > 1 && bytes[0] === 0) bytes = bytes.subarray(1);
+    if (bytes.length === 0) return 0;
+    return (bytes.length - 1) * 8 + bytes[0].toString(2).length;
+}
+
+/** Hex encoding of an INTEGER (e.g. a certificate serial number). */
+export function derIntegerHex(element: DerElement): string {
+    return Array.from(element.content, (b) => b.toString(16).padStart(2, "0"))
+        .join("")
+        .replace(/^(00)+(?=.)/, "");
+}
+
+/** Decode a string type (UTF8String, PrintableString, IA5String, BMPString …). */
+export function derString(element: DerElement): string {
+    const bytes = element.content;
+    if (element.tag === 0x1e) {
+        let out = "";
+        for (let i = 0; i + 1 < bytes.length; i += 2) {
+            out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+        }
+        return out;
+    }
+    if (element.tag === 0x14) return String.fromCharCode(...bytes);
+    return new TextDecoder().decode(bytes);
+}
+
+/** Decode a UTCTime or GeneralizedTime to an ISO 8601 string. */
+export function derTime(element: DerElement): string {
+    const text = new TextDecoder().decode(element.content);
+    const match =
+        element.tag === 0x17
+            ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text)
+            : /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.\d+)?Z$/.exec(text);
+    if (!match) throw new SecretFormatError(`Invalid ASN.1 time "${text}"`);
+    let year = Number(match[1]);
+    if (element.tag === 0x17) year += year < 50 ? 2000 : 1900;
+    const [month, day, hour, minute, second] = match.slice(2).map(Number);
+    return new Date(
+        Date.UTC(year, month - 1, day, hour, minute, second),
+    ).toISOString();
+}
+
+/** Children of a SEQUENCE, requiring at least `min` of them. */
+export function expectSequence(element: DerElement, min: number): DerElement[] {
+    if (element.tag !== 0x30) {
+        throw new SecretFormatError("Expected an ASN.1 SEQUENCE");
+    }
+    const children = derChildren(element);
+    if (children.length < min) {
+        throw new SecretFormatError("ASN.1 SEQUENCE is missing fields");
+    }
+    return children;
+}
+
+function readElement(bytes: Uint8Array, offset: number): [DerElement, number] {
+    if (offset + 2 > bytes.length) throw truncated();
+    const tag = bytes[offset];
+    let length = bytes[offset + 1];
+    let pos = offset + 2;
+    if (length & 0x80) {
+        const count = length & 0x7f;
+        if (count === 0 || count > 4) {
+            throw new SecretFormatError("Unsupported DER length encoding");
+        }
+        if (pos + count > bytes.length) throw truncated();
+        length = 0;
+        for (let i = 0; i < count; i++) length = length * 256 + bytes[pos++];
+    }
+    if (pos + length > bytes.length) throw truncated();
+    return [{ tag, content: bytes.subarray(pos, pos + length) }, pos + length];
+}
+
+function truncated(): SecretFormatError {
+    return new SecretFormatError("DER data is truncated");
+}
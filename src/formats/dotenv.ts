@@ -0,0 +1,144 @@
+/**
+ * dotenv parsing and env-file rendering.
+ *
+ * Parsing follows the common dotenv conventions: `KEY=value` lines,
+ * optional `export ` prefix, `#` comments (full-line, or inline after
+ * whitespace in unquoted values), single quotes (literal), double quotes
+ * (`\n`, `\r`, `\t`, `\"`, `\\` escapes) and multiline quoted values.
+ */
+
+/** Output formats supported by `renderEnv`. */
+export type EnvFormat = "dotenv" | "shell" | "json" | "yaml";
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const SAFE_UNQUOTED = /^[A-Za-z0-9_./:@%+,-]*$/;
+
+/** Parse dotenv text into a name → value map. Later keys win. */
+export function parseDotenv(text: string): Record<string, string> {
+    const vars: Record<string, string> = {};
+    const src = text.replace(/\r\n?/g, "\n");
+    let i = 0;
+
+    const skipToEol = () => {
+        while (i < src.length && src[i] !== "\n") i++;
+    };
+
+    while (i < src.length) {
+        // Leading whitespace and blank lines
+        while (i < src.length && /\s/.test(src[i])) i++;
+        if (i >= src.length) break;
+        if (src[i] === "#") {
+            skipToEol();
+            continue;
+        }
+
+        const eq = src.indexOf("=", i);
+        const eol = src.indexOf("\n", i);
+        if (eq === -1 || (eol !== -1 && eol < eq)) {
+            skipToEol();
+            continue;
+        }
+
+        const key = src
+            .slice(i, eq)
+            .trim()
+            .replace(/^export\s+/, "");
+        i = eq + 1;
+        while (i < src.length && (src[i] === " " || src[i] === "\t")) i++;
+
+        let value: string;
+        const quote = src[i];
+        if (quote === '"' || quote === "'" || quote === "`") {
+            i++;
+            let out = "";
+            while (i < src.length && src[i] !== quote) {
+                if (quote === '"' && src[i] === "\\" && i + 1 < src.length) {
+                    const next = src[i + 1];
+                    out += { n: "\n", r: "\r", t: "\t" }[next] ?? next;
+                    i += 2;
+                    continue;
+                }
+                out += src[i++];
+            }
+            i++; // closing quote
+            value = out;
+            skipToEol(); // ignore anything after the closing quote
+        } else {
+            const end = eol === -1 ? src.length : eol;
+            value = src
+                .slice(i, end)
+                .replace(/\s+#.*$/, "")
+                .trim();
+            i = end;
+        }
+
+        if (KEY_PATTERN.test(key)) vars[key] = value;
+    }
+
+    return vars;
+}
+
+/** Render a name → value map as a dotenv file, shell script, JSON or YAML. */
+export function renderEnv(
+    vars: Record<string, string>,
+    format: EnvFormat = "dotenv",
+): string {
+    const entries = Object.entries(vars);
+    switch (format) {
+        case "json":
+            return JSON.stringify(vars, null, 2) + "\n";
+        case "yaml":
+            // JSON strings are valid YAML double-quoted scalars
+            return entries
+                .map(([k, v]) => `${k}: ${JSON.stringify(v)}\n`)
+                .join("");
+        case "shell":
+            return entries
+                .map(([k, v]) => `export ${k}='${v.replace(/'/g, "'\\''")}'\n`)
+                .join("");
+        case "dotenv":
+            return entries
+                .map(([k, v]) => `${k}=${quoteDotenv(v)}\n`)
+                .join("");
+    }
+}
+
+function quoteDotenv(value: string): string {
+    if (SAFE_UNQUOTED.test(value)) return value;
+    const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r");
+    return `"${escaped}"`;
+}
+
+/**
+ * Default secret path → env var name mapping: path segments joined with
+ * `_`, other invalid characters replaced by `_`, upper-cased, and a
+ * leading `_` added if the result would start with a digit.
+ * `db/prod-password` → `DB_PROD_PASSWORD`.
+ */
+export function defaultEnvName(path: string): string {
+    const name = path
+        .split("/")
+        .filter(Boolean)
+        .join("_")
+        .replace(/[^A-Za-z0-9_]/g, "_")
+        .toUpperCase();
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/** Configurable mapping between secret paths and env var names. */
+export interface EnvNameMapping {
+    /**
+     * Secret path (with the prefix removed) → env var name.
+     * Default: `defaultEnvName`.
+     */
+    toEnvName?: (path: string) => string;
+    /**
+     * Env var name → secret path (before the prefix is added).
+     * Default: the name unchanged.
+     */
+    toSecretPath?: (name: string) => string;
+}
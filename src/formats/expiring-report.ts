@@ -0,0 +1,81 @@
+/**
+ * JSON and Markdown rendering of `reports.expiring` results.
+ */
+
+import type { ExpiringItem, ExpiringReport } from "../resources/reports";
+
+/** Output formats supported by `renderExpiringReport`. */
+export type ReportFormat = "json" | "markdown";
+
+const KIND_LABELS: Record<ExpiringItem["kind"], string> = {
+    secret: "Secret",
+    grant: "Grant",
+    api_key: "API key",
+    agent: "Agent",
+    share: "Share",
+};
+
+/**
+ * Render an expiring-credentials report. Markdown output has one table
+ * per owner and lists scan errors at the end.
+ */
+export function renderExpiringReport(
+    report: ExpiringReport,
+    format: ReportFormat = "markdown",
+): string {
+    if (format === "json") return JSON.stringify(report, null, 2) + "\n";
+
+    const lines = [
+        "# Expiring credentials",
+        "",
+        `Generated ${report.generatedAt}. ${report.items.length} item(s) expiring within ${formatDuration(report.withinMs)}.`,
+    ];
+    for (const group of report.groups) {
+        lines.push(
+            "",
+            `## ${escapeCell(group.owner)}`,
+            "",
+            "| Kind | Name | Expires | In |",
+            "| --- | --- | --- | --- |",
+        );
+        for (const item of group.items) {
+            const when = item.expired
+                ? `**expired ${formatDuration(-item.expiresInMs)} ago**`
+                : formatDuration(item.expiresInMs);
+            lines.push(
+                `| ${KIND_LABELS[item.kind]} | \`${escapeCell(item.name)}\` | ${item.expiresAt} | ${when} |`,
+            );
+        }
+    }
+    if (report.errors.length > 0) {
+        lines.push("", "## Not scanned", "");
+        for (const error of report.errors) {
+            lines.push(`- ${escapeCell(error.source)}: ${escapeCell(error.message)}`);
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+/** "3d 4h", "45m", "20s" — the two largest non-zero units. */
+function formatDuration(ms: number): string {
+    const units: [string, number][] = [
+        ["d", 86_400_000],
+        ["h", 3_600_000],
+        ["m", 60_000],
+        ["s", 1000],
+    ];
+    const parts: string[] = [];
+    let rest = Math.max(0, Math.round(ms));
+    for (const [unit, size] of units) {
+        const count = Math.floor(rest / size);
+        rest -= count * size;
+        if (count > 0 || parts.length > 0) parts.push(`${count}${unit}`);
+        if (parts.length === 2) break;
+    }
+    const shown = parts.filter((p) => !p.startsWith("0"));
+    return shown.length > 0 ? shown.join(" ") : "0s";
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|").replace(/[`\r\n]+/g, " ");
+}
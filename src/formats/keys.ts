@@ -0,0 +1,280 @@
+/**
+ * Private key (PEM / JWK) and SSH key parsing for `private_key` and
+ * `ssh_key` secrets. Only metadata is extracted; key material is never
+ * decrypted or validated cryptographically.
+ */
+
+import { SecretFormatError } from "../core/errors";
+import { fromBase64, toBase64 } from "../cmek";
+import {
+    parsePem,
+    readDer,
+    derOid,
+    derIntegerBits,
+    expectSequence,
+    KEY_ALGORITHMS,
+    type DerElement,
+} from "./der";
+
+/** Metadata of a private key. */
+export interface PrivateKeyInfo {
+    /** Container format. */
+    format: "pkcs8" | "pkcs1" | "sec1" | "encrypted-pkcs8" | "jwk";
+    /** Key algorithm, e.g. "rsa", "ec", "ed25519" ("unknown" when encrypted). */
+    algorithm: string;
+    /** True when the key is passphrase-protected. */
+    encrypted: boolean;
+    /** Modulus size for RSA keys. */
+    bits?: number;
+    /** Named curve for EC/OKP keys, e.g. "P-256". */
+    curve?: string;
+    /** JWK `kid`, if present. */
+    keyId?: string;
+}
+
+/** Metadata of an OpenSSH public or private key. */
+export interface SshKeyInfo {
+    kind: "public" | "private";
+    /** SSH key type, e.g. "ssh-ed25519", "ssh-rsa", "ecdsa-sha2-nistp256". */
+    algorithm: string;
+    /** Modulus size for RSA keys. */
+    bits?: number;
+    /** `SHA256:` fingerprint of the public key, as printed by `ssh-keygen -l`. */
+    fingerprint: string;
+    /** Comment from a public key line. */
+    comment?: string;
+    /** True when a private key is passphrase-protected. */
+    encrypted: boolean;
+}
+
+const CURVES: Record<string, string> = {
+    "1.2.840.10045.3.1.7": "P-256",
+    "1.3.132.0.34": "P-384",
+    "1.3.132.0.35": "P-521",
+    "1.3.132.0.10": "secp256k1",
+};
+
+/**
+ * Parse a PEM (PKCS#8, PKCS#1, SEC1, encrypted PKCS#8) or JWK private
+ * key. Throws `SecretFormatError` for truncated or unrecognised input,
+ * public keys, and anything other than exactly one key.
+ */
+export function parsePrivateKey(text: string): PrivateKeyInfo {
+    if (text.trim().startsWith("{")) return parseJwk(text);
+
+    const blocks = parsePem(text);
+    if (blocks.length !== 1) {
+        throw new SecretFormatError(
+            `Expected one private key, found ${blocks.length} PEM blocks`,
+        );
+    }
+    const { label, headers, der } = blocks[0];
+    // Legacy `Proc-Type: 4,ENCRYPTED` keys can't be parsed further.
+    const legacyEncrypted = /ENCRYPTED/.test(headers["Proc-Type"] ?? "");
+    try {
+        switch (label) {
+            case "PRIVATE KEY":
+                return parsePkcs8(readDer(der));
+            case "ENCRYPTED PRIVATE KEY":
+                expectSequence(readDer(der), 2);
+                return { format: "encrypted-pkcs8", algorithm: "unknown", encrypted: true };
+            case "RSA PRIVATE KEY":
+                if (legacyEncrypted) {
+                    return { format: "pkcs1", algorithm: "rsa", encrypted: true };
+                }
+                return {
+                    format: "pkcs1",
+                    algorithm: "rsa",
+                    encrypted: false,
+                    bits: derIntegerBits(expectSequence(readDer(der), 9)[1]),
+                };
+            case "EC PRIVATE KEY":
+                if (legacyEncrypted) {
+                    return { format: "sec1", algorithm: "ec", encrypted: true };
+                }
+                return {
+                    format: "sec1",
+                    algorithm: "ec",
+                    encrypted: false,
+                    curve: sec1Curve(readDer(der)),
+                };
+            default:
+                throw new SecretFormatError(
+                    `"${label}" PEM block is not a private key`,
+                );
+        }
+    } catch (err) {
+        if (err instanceof SecretFormatError) throw err;
+        throw new SecretFormatError(`Malformed ${label}`);
+    }
+}
+
+/**
+ * Parse an OpenSSH public key line (`ssh-ed25519 AAAA… comment`) or an
+ * `OPENSSH PRIVATE KEY` PEM block.
+ */
+export async function parseSshKey(text: string): Promise<SshKeyInfo> {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("-----BEGIN")) {
+        const blocks = parsePem(trimmed);
+        if (blocks.length !== 1 || blocks[0].label !== "OPENSSH PRIVATE KEY") {
+            throw new SecretFormatError(
+                "Expected a single OPENSSH PRIVATE KEY block",
+            );
+        }
+        return parseOpensshPrivateKey(blocks[0].der);
+    }
+
+    const match = /^(\S+)\s+([A-Za-z0-9+/]+={0,2})(?:\s+(.*))?$/.exec(trimmed);
+    if (!match || trimmed.includes("\n")) {
+        throw new SecretFormatError(
+            "Expected an OpenSSH public key line or OPENSSH PRIVATE KEY block",
+        );
+    }
+    const blob = fromBase64(match[2]);
+    const info = await describeSshPublicKey(blob);
+    if (info.algorithm !== match[1]) {
+        throw new SecretFormatError(
+            `SSH key type "${match[1]}" does not match its data (${info.algorithm})`,
+        );
+    }
+    return { kind: "public", ...info, comment: match[3], encrypted: false };
+}
+
+function parsePkcs8(key: DerElement): PrivateKeyInfo {
+    const [, algorithmId, privateKey] = expectSequence(key, 3);
+    const [oidElement, params] = expectSequence(algorithmId, 1);
+    const oid = derOid(oidElement);
+    const algorithm = KEY_ALGORITHMS[oid] ?? oid;
+    const info: PrivateKeyInfo = { format: "pkcs8", algorithm, encrypted: false };
+    if (algorithm === "rsa" || algorithm === "rsa-pss") {
+        info.bits = derIntegerBits(expectSequence(readDer(privateKey.content), 9)[1]);
+    } else if (algorithm === "ec" && params) {
+        const curve = derOid(params);
+        info.curve = CURVES[curve] ?? curve;
+    } else if (algorithm !== "ec" && algorithm !== oid) {
+        info.curve = algorithm.charAt(0).toUpperCase() + algorithm.slice(1);
+    }
+    return info;
+}
+
+function sec1Curve(key: DerElement): string | undefined {
+    const tagged = expectSequence(key, 2).find((el) => el.tag === 0xa0);
+    if (!tagged) return undefined;
+    const oid = derOid(readDer(tagged.content));
+    return CURVES[oid] ?? oid;
+}
+
+function parseJwk(text: string): PrivateKeyInfo {
+    let jwk: Record<string, unknown>;
+    try {
+        jwk = JSON.parse(text);
+    } catch {
+        throw new SecretFormatError("Private key is neither PEM nor valid JSON");
+    }
+    const kty = jwk.kty;
+    if (kty !== "RSA" && kty !== "EC" && kty !== "OKP") {
+        throw new SecretFormatError(`Unsupported JWK key type "${String(kty)}"`);
+    }
+    if (typeof jwk.d !== "string") {
+        throw new SecretFormatError("JWK is a public key (no \"d\" parameter)");
+    }
+    const info: PrivateKeyInfo = {
+        format: "jwk",
+        algorithm: kty === "RSA" ? "rsa" : kty === "EC" ? "ec" : String(jwk.crv).toLowerCase(),
+        encrypted: false,
+    };
+    if (kty === "RSA") {
+        if (typeof jwk.n !== "string") {
+            throw new SecretFormatError("RSA JWK is missing \"n\"");
+        }
+        info.bits = derIntegerBits({ tag: 0x02, content: fromBase64Url(jwk.n) });
+    } else {
+        if (typeof jwk.crv !== "string") {
+            throw new SecretFormatError(`${kty} JWK is missing "crv"`);
+        }
+        info.curve = jwk.crv;
+    }
+    if (typeof jwk.kid === "string") info.keyId = jwk.kid;
+    return info;
+}
+
+const OPENSSH_MAGIC = "openssh-key-v1\0";
+
+async function parseOpensshPrivateKey(der: Uint8Array): Promise<SshKeyInfo> {
+    const magic = new TextDecoder().decode(der.subarray(0, OPENSSH_MAGIC.length));
+    if (magic !== OPENSSH_MAGIC) {
+        throw new SecretFormatError("Not an openssh-key-v1 private key");
+    }
+    const reader = new SshReader(der.subarray(OPENSSH_MAGIC.length));
+    const cipher = reader.text();
+    reader.bytes(); // kdf name
+    reader.bytes(); // kdf options
+    const count = reader.uint32();
+    if (count !== 1) {
+        throw new SecretFormatError(`Expected one key in OpenSSH file, found ${count}`);
+    }
+    const publicKey = reader.bytes();
+    const privateSection = reader.bytes();
+    if (cipher === "none" && privateSection.length % 8 !== 0) {
+        throw new SecretFormatError("OpenSSH private key is truncated");
+    }
+    return {
+        kind: "private",
+        ...(await describeSshPublicKey(publicKey)),
+        encrypted: cipher !== "none",
+    };
+}
+
+async function describeSshPublicKey(
+    blob: Uint8Array,
+): Promise<Pick<SshKeyInfo, "algorithm" | "bits" | "fingerprint">> {
+    const reader = new SshReader(blob);
+    const algorithm = reader.text();
+    let bits: number | undefined;
+    if (algorithm === "ssh-rsa") {
+        reader.bytes(); // e
+        bits = derIntegerBits({ tag: 0x02, content: reader.bytes() });
+    } else {
+        reader.bytes();
+    }
+    const digest = await globalThis.crypto.subtle.digest("SHA-256", new Uint8Array(blob));
+    const fingerprint = `SHA256:${toBase64(new Uint8Array(digest)).replace(/=+$/, "")}`;
+    return { algorithm, bits, fingerprint };
+}
+
+/** Reader for the SSH wire encoding (RFC 4251 §5). */
+class SshReader {
+    private offset = 0;
+
+    constructor(private readonly buf: Uint8Array) {}
+
+    uint32(): number {
+        if (this.offset + 4 > this.buf.length) {
+            throw new SecretFormatError("SSH key data is truncated");
+        }
+        const b = this.buf;
+        const o = this.offset;
+        this.offset += 4;
+        return ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+    }
+
+    bytes(): Uint8Array {
+        const length = this.uint32();
+        if (this.offset + length > this.buf.length) {
+            throw new SecretFormatError("SSH key data is truncated");
+        }
+        const out = this.buf.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return out;
+    }
+
+    text(): string {
+        return new TextDecoder().decode(this.bytes());
+    }
+}
+
+function fromBase64Url(value: string): Uint8Array {
+    const b64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    return fromBase64(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+}
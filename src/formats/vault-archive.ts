@@ -0,0 +1,294 @@
+/**
+ * Encrypted vault backup archives, written by `vault.backup` and read by
+ * `vault.restore`.
+ *
+ * Layout (all integers big-endian):
+ *   [8 bytes "1CLAWBAK"][1 byte format version = 0x01]
+ *   [4 bytes manifest length][manifest JSON]
+ *   [CMEK wire-format blob of the payload JSON (see `cmekEncrypt`)]
+ *   [32 bytes SHA-256 of everything before it]
+ *
+ * The manifest is readable without the key. The trailing hash rejects
+ * truncated or corrupted files before decryption; the payload carries
+ * the manifest's hash so a manifest edited after sealing is rejected
+ * too, and AES-GCM authenticates the payload itself.
+ */
+
+import { BackupArchiveError, ValidationError } from "../core/errors";
+import { cmekDecrypt, cmekEncrypt, cmekFingerprint, fromBase64, toBase64 } from "../cmek";
+
+const MAGIC = "1CLAWBAK";
+const FORMAT_VERSION = 1;
+const HASH_LENGTH = 32;
+const PBKDF2_ITERATIONS = 600_000;
+
+/** Key for sealing or opening an archive: a passphrase or a raw 32-byte AES key. */
+export interface VaultArchiveKey {
+    passphrase?: string;
+    cmekKey?: Uint8Array;
+}
+
+/** How the archive key was derived, as recorded in the manifest. */
+export type VaultArchiveKeyInfo =
+    | { type: "passphrase"; kdf: "PBKDF2-SHA256"; iterations: number; salt: string }
+    | { type: "cmek"; fingerprint: string };
+
+/** Unencrypted description of an archive. */
+export interface VaultArchiveManifest {
+    format_version: number;
+    /** When the backup was taken (ISO 8601). */
+    created_at: string;
+    vault: { id: string; name: string };
+    secret_count: number;
+    policy_count: number;
+    key: VaultArchiveKeyInfo;
+}
+
+/** One secret as stored in an archive (latest version only). */
+export interface ArchivedSecret {
+    path: string;
+    type: string;
+    value: string;
+    metadata: Record<string, unknown>;
+    expires_at?: string;
+}
+
+/** One access policy as stored in an archive. */
+export interface ArchivedPolicy {
+    secret_path_pattern: string;
+    principal_type: string;
+    principal_id: string;
+    permissions: string[];
+    conditions?: Record<string, unknown>;
+    expires_at?: string;
+}
+
+/** Decrypted archive contents. */
+export interface VaultArchiveContents {
+    secrets: ArchivedSecret[];
+    policies: ArchivedPolicy[];
+}
+
+/**
+ * Encrypt `contents` into an archive. Throws `ValidationError` unless
+ * exactly one of `passphrase` or a 32-byte `cmekKey` is given.
+ */
+export async function sealVaultArchive(
+    vault: { id: string; name: string },
+    contents: VaultArchiveContents,
+    key: VaultArchiveKey,
+    createdAt: Date = new Date(),
+): Promise<{ archive: Uint8Array; manifest: VaultArchiveManifest }> {
+    checkVaultArchiveKey(key);
+    let keyInfo: VaultArchiveKeyInfo;
+    if (key.passphrase !== undefined) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        keyInfo = {
+            type: "passphrase",
+            kdf: "PBKDF2-SHA256",
+            iterations: PBKDF2_ITERATIONS,
+            salt: toBase64(salt),
+        };
+    } else {
+        keyInfo = { type: "cmek", fingerprint: await cmekFingerprint(key.cmekKey!) };
+    }
+    const manifest: VaultArchiveManifest = {
+        format_version: FORMAT_VERSION,
+        created_at: createdAt.toISOString(),
+        vault: { id: vault.id, name: vault.name },
+        secret_count: contents.secrets.length,
+        policy_count: contents.policies.length,
+        key: keyInfo,
+    };
+
+    const encoder = new TextEncoder();
+    const header = encoder.encode(JSON.stringify(manifest));
+    const payload = encoder.encode(
+        JSON.stringify({ manifest_sha256: await sha256Hex(header), ...contents }),
+    );
+    const body = await cmekEncrypt(payload, await archiveKey(key, keyInfo));
+
+    const prefix = encoder.encode(MAGIC);
+    const sealed = new Uint8Array(prefix.length + 5 + header.length + body.length + HASH_LENGTH);
+    sealed.set(prefix, 0);
+    const view = new DataView(sealed.buffer);
+    view.setUint8(prefix.length, FORMAT_VERSION);
+    view.setUint32(prefix.length + 1, header.length);
+    sealed.set(header, prefix.length + 5);
+    sealed.set(body, prefix.length + 5 + header.length);
+    const hashAt = sealed.length - HASH_LENGTH;
+    sealed.set(await sha256(sealed.subarray(0, hashAt)), hashAt);
+    return { archive: sealed, manifest };
+}
+
+/**
+ * Read an archive's manifest without decrypting it. Throws
+ * `BackupArchiveError` if the file is not an archive, is truncated,
+ * fails its integrity hash, or has a malformed manifest.
+ */
+export async function readVaultArchiveManifest(
+    archive: Uint8Array,
+): Promise<VaultArchiveManifest> {
+    return (await splitArchive(archive)).manifest;
+}
+
+/**
+ * Verify and decrypt an archive. Throws `BackupArchiveError` for
+ * truncated, tampered or foreign files and for the wrong key.
+ */
+export async function openVaultArchive(
+    archive: Uint8Array,
+    key: VaultArchiveKey,
+): Promise<{ manifest: VaultArchiveManifest; contents: VaultArchiveContents }> {
+    checkVaultArchiveKey(key);
+    const { manifest, header, body } = await splitArchive(archive);
+    if (manifest.key.type === "passphrase" && key.passphrase === undefined) {
+        throw new BackupArchiveError("Archive is protected by a passphrase");
+    }
+    if (
+        manifest.key.type === "passphrase" &&
+        !(manifest.key.iterations >= 100_000 && manifest.key.iterations <= 10_000_000)
+    ) {
+        throw new BackupArchiveError("Archive key derivation settings are out of range");
+    }
+    if (manifest.key.type === "cmek") {
+        if (!key.cmekKey) throw new BackupArchiveError("Archive is protected by a CMEK key");
+        if ((await cmekFingerprint(key.cmekKey)) !== manifest.key.fingerprint) {
+            throw new BackupArchiveError("CMEK key does not match the archive's key fingerprint");
+        }
+    }
+
+    let payload: VaultArchiveContents & { manifest_sha256?: string };
+    try {
+        const plaintext = await cmekDecrypt(body, await archiveKey(key, manifest.key));
+        payload = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+        throw new BackupArchiveError("Archive could not be decrypted (wrong key or tampered payload)");
+    }
+    if (payload.manifest_sha256 !== (await sha256Hex(header))) {
+        throw new BackupArchiveError("Archive manifest does not match its payload");
+    }
+    if (
+        !Array.isArray(payload.secrets) ||
+        !Array.isArray(payload.policies) ||
+        payload.secrets.length !== manifest.secret_count ||
+        payload.policies.length !== manifest.policy_count
+    ) {
+        throw new BackupArchiveError("Archive payload does not match its manifest counts");
+    }
+    return { manifest, contents: { secrets: payload.secrets, policies: payload.policies } };
+}
+
+async function splitArchive(archive: Uint8Array): Promise<{
+    manifest: VaultArchiveManifest;
+    header: Uint8Array;
+    body: Uint8Array;
+}> {
+    const prefixLength = MAGIC.length + 5;
+    if (
+        archive.length < prefixLength + HASH_LENGTH ||
+        new TextDecoder().decode(archive.subarray(0, MAGIC.length)) !== MAGIC
+    ) {
+        throw new BackupArchiveError("Not a 1Claw vault archive");
+    }
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    const version = view.getUint8(MAGIC.length);
+    if (version !== FORMAT_VERSION) {
+        throw new BackupArchiveError(`Unsupported archive format version ${version}`);
+    }
+    const hashAt = archive.length - HASH_LENGTH;
+    const expected = await sha256(archive.subarray(0, hashAt));
+    if (!expected.every((b, i) => b === archive[hashAt + i])) {
+        throw new BackupArchiveError("Archive is truncated or corrupted (integrity hash mismatch)");
+    }
+    const headerLength = view.getUint32(MAGIC.length + 1);
+    if (prefixLength + headerLength > hashAt) {
+        throw new BackupArchiveError("Archive manifest length is out of range");
+    }
+    const header = archive.subarray(prefixLength, prefixLength + headerLength);
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(header));
+    } catch {
+        throw new BackupArchiveError("Archive manifest is not valid JSON");
+    }
+    // The integrity hash can be recomputed by anyone, so check the shape too.
+    if (!isVaultArchiveManifest(manifest)) {
+        throw new BackupArchiveError("Archive manifest is missing fields or has the wrong types");
+    }
+    return { manifest, header, body: archive.subarray(prefixLength + headerLength, hashAt) };
+}
+
+function isVaultArchiveManifest(value: unknown): value is VaultArchiveManifest {
+    if (!isRecord(value) || !isRecord(value.vault) || !isRecord(value.key)) return false;
+    const { vault, key } = value;
+    const count = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+    const keyValid =
+        key.type === "passphrase"
+            ? key.kdf === "PBKDF2-SHA256" &&
+              Number.isInteger(key.iterations) &&
+              typeof key.salt === "string"
+            : key.type === "cmek" && typeof key.fingerprint === "string";
+    return (
+        value.format_version === FORMAT_VERSION &&
+        typeof value.created_at === "string" &&
+        typeof vault.id === "string" &&
+        typeof vault.name === "string" &&
+        count(value.secret_count) &&
+        count(value.policy_count) &&
+        keyValid
+    );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Throw `ValidationError` unless `key` has exactly one of a non-empty
+ * `passphrase` or a 32-byte `cmekKey`.
+ */
+export function checkVaultArchiveKey(key: VaultArchiveKey): void {
+    if ((key.passphrase === undefined) === (key.cmekKey === undefined)) {
+        throw new ValidationError("Provide exactly one of passphrase or cmekKey");
+    }
+    if (key.passphrase === "") {
+        throw new ValidationError("Backup passphrase must not be empty");
+    }
+    if (key.cmekKey && key.cmekKey.length !== 32) {
+        throw new ValidationError("cmekKey must be 32 bytes (AES-256)");
+    }
+}
+
+async function archiveKey(
+    key: VaultArchiveKey,
+    info: VaultArchiveKeyInfo,
+): Promise<Uint8Array> {
+    if (info.type === "cmek") return key.cmekKey!;
+    const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(key.passphrase!),
+        "PBKDF2",
+        false,
+        ["deriveBits"],
+    );
+    const bits = await crypto.subtle.deriveBits(
+        {
+            name: "PBKDF2",
+            hash: "SHA-256",
+            salt: new Uint8Array(fromBase64(info.salt)),
+            iterations: info.iterations,
+        },
+        material,
+        256,
+    );
+    return new Uint8Array(bits);
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest("SHA-256", new Uint8Array(data)));
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+    return Array.from(await sha256(data), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,218 @@
+/**
+ * Random secret value generation (passwords, tokens, UUIDs, keypairs and
+ * AES keys). Everything is drawn from WebCrypto — `crypto.getRandomValues`
+ * and `crypto.subtle` — so it works in browsers and Node.js 18+.
+ */
+
+import { ValidationError } from "./core/errors";
+import { toBase64 } from "./cmek";
+
+/** Random password built from the enabled character classes. */
+export interface PasswordSpec {
+    kind: "password";
+    /** Number of characters (default: 32, minimum: 8). */
+    length?: number;
+    /** Include a–z (default: true). */
+    lowercase?: boolean;
+    /** Include A–Z (default: true). */
+    uppercase?: boolean;
+    /** Include 0–9 (default: true). */
+    digits?: boolean;
+    /** Include symbols (default: true). */
+    symbols?: boolean;
+    /** Symbol alphabet (default: `!#$%&*+-.:=?@^_~`). */
+    symbolSet?: string;
+    /** Characters to leave out, e.g. look-alikes such as `Il1O0`. */
+    exclude?: string;
+}
+
+/** Random bytes encoded as hex or base64url (e.g. API tokens). */
+export interface TokenSpec {
+    kind: "token";
+    /** Number of random bytes (default: 32). */
+    bytes?: number;
+    /** Encoding (default: "base64url"). */
+    encoding?: "hex" | "base64url";
+    /** String prepended to the encoded bytes, e.g. "sk_live_". */
+    prefix?: string;
+}
+
+/** Random (version 4) UUID. */
+export interface UuidSpec {
+    kind: "uuid";
+}
+
+/** Ed25519 or ECDSA P-256 keypair; the private key is stored. */
+export interface KeypairSpec {
+    kind: "keypair";
+    algorithm: "Ed25519" | "P-256";
+    /** Encoding of both keys (default: "pem" — PKCS#8 / SPKI). */
+    format?: "pem" | "jwk";
+}
+
+/** Random AES key. */
+export interface AesKeySpec {
+    kind: "aes";
+    /** Key size (default: 256). */
+    bits?: 128 | 192 | 256;
+    /** Encoding (default: "base64"). */
+    encoding?: "base64" | "hex";
+}
+
+/** What `secrets.generate` should create. */
+export type GenerateSpec =
+    | PasswordSpec
+    | TokenSpec
+    | UuidSpec
+    | KeypairSpec
+    | AesKeySpec;
+
+/** A generated value with the secret `type` it should be stored as. */
+export interface GeneratedValue {
+    value: string;
+    type: string;
+    /** Public half of a generated keypair (same encoding as `value`). */
+    publicKey?: string;
+}
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+const SYMBOLS = "!#$%&*+-.:=?@^_~";
+
+/**
+ * Generate a value for `spec`. Throws `ValidationError` for impossible
+ * specs (e.g. a password with every character class disabled).
+ */
+export async function generateSecretValue(
+    spec: GenerateSpec,
+): Promise<GeneratedValue> {
+    switch (spec.kind) {
+        case "password":
+            return { value: generatePassword(spec), type: "password" };
+        case "token": {
+            const bytes = randomBytes(spec.bytes ?? 32);
+            const encoded =
+                spec.encoding === "hex" ? toHex(bytes) : toBase64Url(bytes);
+            return { value: (spec.prefix ?? "") + encoded, type: "api_key" };
+        }
+        case "uuid":
+            return { value: randomUuid(), type: "generic" };
+        case "keypair":
+            return { ...(await generateKeypair(spec)), type: "private_key" };
+        case "aes": {
+            const key = await crypto.subtle.generateKey(
+                { name: "AES-GCM", length: spec.bits ?? 256 },
+                true,
+                ["encrypt", "decrypt"],
+            );
+            const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+            return {
+                value: spec.encoding === "hex" ? toHex(raw) : toBase64(raw),
+                type: "generic",
+            };
+        }
+        default:
+            throw new ValidationError(
+                `Unknown generate kind "${(spec as { kind: string }).kind}"`,
+            );
+    }
+}
+
+function generatePassword(spec: PasswordSpec): string {
+    const length = spec.length ?? 32;
+    if (!Number.isInteger(length) || length < 8) {
+        throw new ValidationError("Password length must be an integer of at least 8");
+    }
+    const exclude = new Set(spec.exclude ?? "");
+    const classes = [
+        spec.lowercase !== false && LOWERCASE,
+        spec.uppercase !== false && UPPERCASE,
+        spec.digits !== false && DIGITS,
+        spec.symbols !== false && (spec.symbolSet ?? SYMBOLS),
+    ]
+        .filter((set): set is string => Boolean(set))
+        .map((set) => [...set].filter((c) => !exclude.has(c)).join(""))
+        .filter((set) => set.length > 0);
+    if (classes.length === 0) {
+        throw new ValidationError("Password spec leaves no characters to choose from");
+    }
+    if (classes.length > length) {
+        throw new ValidationError(
+            `Password length ${length} is too short for ${classes.length} character classes`,
+        );
+    }
+
+    // One character from each class, the rest from all of them, shuffled.
+    const alphabet = classes.join("");
+    const chars = classes.map((set) => set[randomIndex(set.length)]);
+    while (chars.length < length) chars.push(alphabet[randomIndex(alphabet.length)]);
+    for (let i = chars.length - 1; i > 0; i--) {
+        const j = randomIndex(i + 1);
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    return chars.join("");
+}
+
+async function generateKeypair(
+    spec: KeypairSpec,
+): Promise<{ value: string; publicKey: string }> {
+    const algorithm =
+        spec.algorithm === "Ed25519"
+            ? { name: "Ed25519" }
+            : { name: "ECDSA", namedCurve: "P-256" };
+    const pair = (await crypto.subtle.generateKey(algorithm, true, [
+        "sign",
+        "verify",
+    ])) as CryptoKeyPair;
+
+    if (spec.format === "jwk") {
+        const strip = ({ ext: _ext, key_ops: _ops, ...jwk }: JsonWebKey) => jwk;
+        return {
+            value: JSON.stringify(strip(await crypto.subtle.exportKey("jwk", pair.privateKey))),
+            publicKey: JSON.stringify(strip(await crypto.subtle.exportKey("jwk", pair.publicKey))),
+        };
+    }
+    return {
+        value: toPem("PRIVATE KEY", await crypto.subtle.exportKey("pkcs8", pair.privateKey)),
+        publicKey: toPem("PUBLIC KEY", await crypto.subtle.exportKey("spki", pair.publicKey)),
+    };
+}
+
+/** Uniform index in [0, n) using rejection sampling (no modulo bias). */
+function randomIndex(n: number): number {
+    const limit = Math.floor(0x1_0000_0000 / n) * n;
+    const buf = new Uint32Array(1);
+    do {
+        crypto.getRandomValues(buf);
+    } while (buf[0] >= limit);
+    return buf[0] % n;
+}
+
+function randomBytes(count: number): Uint8Array {
+    if (!Number.isInteger(count) || count < 1 || count > 65536) {
+        throw new ValidationError("Token size must be between 1 and 65536 bytes");
+    }
+    return crypto.getRandomValues(new Uint8Array(count));
+}
+
+function randomUuid(): string {
+    const bytes = randomBytes(16);
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = toHex(bytes);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function toPem(label: string, der: ArrayBuffer): string {
+    const lines = toBase64(new Uint8Array(der)).match(/.{1,64}/g) ?? [];
+    return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
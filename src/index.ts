@@ -1,12 +1,74 @@
 // Client
 export { OneclawClient, createClient } from "./core/client";
 
+// Redacting secret values
+export { SecretValue } from "./core/secret-value";
+export type { WithSecretValue } from "./core/secret-value";
+
+// Secret paths
+export {
+    normalizeSecretPath,
+    encodeSecretPath,
+    encodePathId,
+    MAX_SECRET_PATH_LENGTH,
+} from "./core/paths";
+
+// Pagination
+export { paginate, pageOf } from "./core/paginate";
+export type {
+    PaginateOptions,
+    PageRequest,
+    Page,
+    PageFetcher,
+} from "./core/paginate";
+
 // Core internals (for advanced usage)
 export { HttpClient } from "./core/http";
+export type {
+    Middleware,
+    MiddlewareConfig,
+    NextMiddleware,
+    RequestContext,
+} from "./core/middleware";
 
 // Resource modules
 export { VaultResource } from "./resources/vault";
+export type {
+    VaultBackupOptions,
+    VaultBackup,
+    VaultRestoreOptions,
+    VaultRestoreResult,
+    RestoreConflictStrategy,
+    RestoredSecret,
+    RestoredPolicy,
+    SyncSecret,
+    SyncTransform,
+    VaultDiffOptions,
+    SecretDiffField,
+    SecretDiffEntry,
+    VaultDiff,
+    VaultSyncOptions,
+    SyncAction,
+    VaultSyncResult,
+} from "./resources/vault";
 export { SecretsResource } from "./resources/secrets";
+export type {
+    BulkOptions,
+    BulkItemResult,
+    SecretEntry,
+    DeletePrefixResult,
+    EnvExportOptions,
+    EnvImportOptions,
+    EnvImportResult,
+    TypedGetOptions,
+    GenerateSecretOptions,
+    GenerateSecretResult,
+    CopySecretOptions,
+    MoveSecretOptions,
+    SecretTransferItem,
+    PolicyRewrite,
+    SecretTransferResult,
+} from "./resources/secrets";
 export { AccessResource } from "./resources/access";
 export { AgentsResource } from "./resources/agents";
 export { SharingResource } from "./resources/sharing";
@@ -18,6 +80,104 @@ export { AuthResource } from "./resources/auth";
 export { ApiKeysResource } from "./resources/api-keys";
 export { ChainsResource } from "./resources/chains";
 export { X402Resource } from "./resources/x402";
+export {
+    ReportsResource,
+    sortExpiringItems,
+    groupExpiringItems,
+} from "./resources/reports";
+export type {
+    ExpiringKind,
+    ExpiringSortKey,
+    ExpiringItem,
+    ExpiringGroup,
+    ExpiringScanError,
+    ExpiringReport,
+    ExpiringReportOptions,
+    ReportSources,
+} from "./resources/reports";
+export { renderExpiringReport } from "./formats/expiring-report";
+export type { ReportFormat } from "./formats/expiring-report";
+
+// Declarative configuration (plan/apply)
+export * as declarative from "./declarative";
+export type {
+    DeclarativeSpec,
+    VaultSpec,
+    GrantSpec,
+    AgentSpec,
+    ChainSpec,
+    Plan,
+    PlanStep,
+    PlanChange,
+    ApplyResult,
+} from "./declarative";
+
+// Secret references in configuration
+export { resolveSecrets, parseSecretReference } from "./references";
+export type { SecretReference, ResolveSecretsOptions } from "./references";
+
+// Environment variables (.env)
+export { loadIntoEnv } from "./env";
+export type { LoadIntoEnvOptions, LoadIntoEnvResult } from "./env";
+export {
+    parseDotenv,
+    renderEnv,
+    defaultEnvName,
+} from "./formats/dotenv";
+export type { EnvFormat, EnvNameMapping } from "./formats/dotenv";
+
+// Typed secret values (certificates, keys)
+export { parseCertificateChain } from "./formats/certificate";
+export type { CertificateChain, CertificateInfo } from "./formats/certificate";
+export { parsePrivateKey, parseSshKey } from "./formats/keys";
+export type { PrivateKeyInfo, SshKeyInfo } from "./formats/keys";
+
+// Vault backup archives
+export {
+    sealVaultArchive,
+    openVaultArchive,
+    readVaultArchiveManifest,
+} from "./formats/vault-archive";
+export type {
+    VaultArchiveKey,
+    VaultArchiveKeyInfo,
+    VaultArchiveManifest,
+    VaultArchiveContents,
+    ArchivedSecret,
+    ArchivedPolicy,
+} from "./formats/vault-archive";
+
+// Secret generation
+export { generateSecretValue } from "./generate";
+export type {
+    GenerateSpec,
+    GeneratedValue,
+    PasswordSpec,
+    TokenSpec,
+    UuidSpec,
+    KeypairSpec,
+    AesKeySpec,
+} from "./generate";
+
+// Secret rotation
+export {
+    RotationEngine,
+    randomTokenRotator,
+    agentKeyRotator,
+    ROTATION_METADATA_KEY,
+} from "./rotation";
+export type {
+    Rotator,
+    RotationContext,
+    RotationPolicy,
+    RotationStage,
+    RotationResult,
+    DueRotation,
+    RotateSecretOptions,
+    RotationScanOptions,
+    RotationSchedulerOptions,
+    RotationScheduler,
+} from "./rotation";
 
 // CMEK (Customer-Managed Encryption Keys)
 export {
@@ -28,6 +188,8 @@ export {
     toBase64,
     fromBase64,
 } from "./cmek";
+export { CLIENT_ENCRYPTION_METADATA_KEY } from "./core/client-encryption";
+export type { ClientEncryptionMarker } from "./core/client-encryption";
 
 // Errors
 export {
@@ -40,9 +202,24 @@ export {
     RateLimitError,
     ValidationError,
     ServerError,
+    TimeoutError,
+    ClientEncryptionError,
+    PolicyDeniedError,
+    UnresolvedReferencesError,
+    SecretFormatError,
+    BackupArchiveError,
 } from "./core/errors";
+export type { UnresolvedReference } from "./core/errors";
 
 // Plugin interfaces
+export {
+    ConsoleAuditSink,
+    NdjsonFileAuditSink,
+    BatchingAuditSink,
+    LocalPolicyEngine,
+    evaluatePolicies,
+    explainPolicies,
+} from "./plugins";
 export type {
     CryptoProvider,
     KeyMaterial,
@@ -52,11 +229,18 @@ export type {
     PolicyContext,
     PolicyDecision,
     PluginRegistry,
+    BatchingAuditSinkOptions,
+    LocalPolicyEngineOptions,
 } from "./plugins";
 
 // Types
 export type {
     OneclawClientConfig,
+    RetryOptions,
+    SecretCacheOptions,
+    RequestOptions,
+    AuditContext,
+    FetchInitExtras,
     OneclawResponse,
     ResponseMeta,
     // Auth
@@ -87,11 +271,14 @@ export type {
     SecretMetadataResponse,
     SecretResponse,
     SecretListResponse,
+    SecretVersionListResponse,
     // Policies
     CreatePolicyRequest,
     UpdatePolicyRequest,
     PolicyResponse,
     PolicyListResponse,
+    EffectiveAccess,
+    SecretAccessExplanation,
     // Agents
     CreateAgentRequest,
     UpdateAgentRequest,
@@ -128,6 +315,8 @@ export type {
     UsageSummaryResponse,
     UsageEventResponse,
     UsageHistoryResponse,
+    CreditTransaction,
+    CreditTransactionListResponse,
     // Audit
     AuditQuery,
     AuditEvent,
@@ -44,6 +44,12 @@ export interface AuditSink {
     /** Emit a single audit event. Implementations should not throw. */
     emit(event: AuditSinkEvent): Promise<void>;
 
+    /**
+     * Emit several events at once. Optional — `BatchingAuditSink` uses it
+     * when present and falls back to `emit` per event otherwise.
+     */
+    emitBatch?(events: AuditSinkEvent[]): Promise<void>;
+
     /** Flush any buffered events. Called on client disposal. */
     flush?(): Promise<void>;
 }
@@ -0,0 +1,135 @@
+import type { AuditSink, AuditSinkEvent } from "./audit-sink";
+
+/**
+ * Writes each event as a single JSON line to the console (or any
+ * `log` function you supply).
+ *
+ * @example
+ * ```ts
+ * createClient({ ..., plugins: { auditSink: new ConsoleAuditSink() } });
+ * ```
+ */
+export class ConsoleAuditSink implements AuditSink {
+    private readonly log: (line: string) => void;
+
+    constructor(options: { log?: (line: string) => void } = {}) {
+        this.log = options.log ?? ((line) => console.log(line));
+    }
+
+    async emit(event: AuditSinkEvent): Promise<void> {
+        this.log(JSON.stringify(event));
+    }
+}
+
+/**
+ * Appends events to a newline-delimited JSON file. Node.js only —
+ * `node:fs/promises` is loaded lazily on the first write. Writes are
+ * serialized so lines never interleave; `flush()` waits for them.
+ */
+export class NdjsonFileAuditSink implements AuditSink {
+    private queue: Promise<void> = Promise.resolve();
+    private fs?: Promise<{
+        appendFile(path: string, data: string): Promise<void>;
+    }>;
+
+    constructor(private readonly filePath: string) {}
+
+    emit(event: AuditSinkEvent): Promise<void> {
+        return this.emitBatch([event]);
+    }
+
+    emitBatch(events: AuditSinkEvent[]): Promise<void> {
+        if (events.length === 0) return this.queue;
+        const data = events.map((e) => JSON.stringify(e) + "\n").join("");
+        const write = this.queue.then(async () => {
+            const fs = await this.loadFs();
+            await fs.appendFile(this.filePath, data);
+        });
+        // Keep the queue alive after a failed write; the caller still sees it.
+        this.queue = write.catch(() => {});
+        return write;
+    }
+
+    async flush(): Promise<void> {
+        await this.queue;
+    }
+
+    private loadFs() {
+        // Indirect specifier keeps browser bundlers from resolving it.
+        const specifier = "node:fs/promises";
+        this.fs ??= import(/* @vite-ignore */ specifier);
+        return this.fs;
+    }
+}
+
+/** Options for `BatchingAuditSink`. */
+export interface BatchingAuditSinkOptions {
+    /** Flush once this many events are buffered (default: 100). */
+    maxBatchSize?: number;
+    /** Flush buffered events at least this often, in ms (default: 5000). */
+    flushIntervalMs?: number;
+}
+
+/**
+ * Buffers events in memory and forwards them to another sink in
+ * batches — when `maxBatchSize` is reached, when `flushIntervalMs`
+ * elapses, or when `flush()` is called (e.g. via `client.close()`).
+ * The interval timer does not keep a Node.js process alive.
+ */
+export class BatchingAuditSink implements AuditSink {
+    private buffer: AuditSinkEvent[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+    private inFlight: Promise<void> = Promise.resolve();
+    private readonly maxBatchSize: number;
+    private readonly flushIntervalMs: number;
+
+    constructor(
+        private readonly inner: AuditSink,
+        options: BatchingAuditSinkOptions = {},
+    ) {
+        this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 100);
+        this.flushIntervalMs = options.flushIntervalMs ?? 5_000;
+    }
+
+    async emit(event: AuditSinkEvent): Promise<void> {
+        this.buffer.push(event);
+        if (this.buffer.length >= this.maxBatchSize) {
+            this.drain().catch(() => {});
+        } else {
+            this.schedule();
+        }
+    }
+
+    /** Forward everything buffered so far, then flush the inner sink. */
+    async flush(): Promise<void> {
+        await this.drain();
+        await this.inner.flush?.();
+    }
+
+    private schedule(): void {
+        if (this.timer || this.flushIntervalMs <= 0) return;
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain().catch(() => {});
+        }, this.flushIntervalMs);
+        (this.timer as { unref?: () => void }).unref?.();
+    }
+
+    private drain(): Promise<void> {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        const batch = this.buffer;
+        this.buffer = [];
+
+        const send = this.inFlight.then(async () => {
+            if (batch.length === 0) return;
+            if (this.inner.emitBatch) {
+                await this.inner.emitBatch(batch);
+            } else {
+                for (const event of batch) await this.inner.emit(event);
+            }
+        });
+        this.inFlight = send.catch(() => {});
+        return send;
+    }
+}
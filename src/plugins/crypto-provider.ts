@@ -17,11 +17,19 @@ export interface KeyMaterial {
  * server-side HSM. Implement this interface to add client-side encryption
  * before secrets reach the API, or to integrate with external KMS services.
  *
+ * When configured via `plugins.cryptoProvider`, `secrets.set`/`rotate`
+ * encrypt values before upload and `secrets.get` decrypts them. The
+ * provider `name` and `keyId` are recorded in the secret's metadata so
+ * reads with a missing or different provider fail with
+ * `ClientEncryptionError` instead of returning ciphertext.
+ *
  * @example
  * ```ts
  * import type { CryptoProvider, KeyMaterial } from "@1claw/sdk";
  *
  * class AwsKmsProvider implements CryptoProvider {
+ *   readonly name = "aws-kms";
+ *   readonly keyId = "arn:aws:kms:us-east-1:123:key/abc";
  *   async encrypt(plaintext: Uint8Array): Promise<Uint8Array> { ... }
  *   async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> { ... }
  *   async generateKey(): Promise<KeyMaterial> { ... }
@@ -29,6 +37,12 @@ export interface KeyMaterial {
  * ```
  */
 export interface CryptoProvider {
+    /** Stable provider identifier recorded with each encrypted secret. */
+    readonly name?: string;
+
+    /** Identifier of the key currently used to encrypt (e.g. KMS key ARN). */
+    readonly keyId?: string;
+
     /** Encrypt plaintext bytes, returning ciphertext bytes. */
     encrypt(plaintext: Uint8Array): Promise<Uint8Array>;
 
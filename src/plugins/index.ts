@@ -1,5 +1,17 @@
 export type { CryptoProvider, KeyMaterial } from "./crypto-provider";
 export type { AuditSink, AuditSinkEvent } from "./audit-sink";
+export {
+    ConsoleAuditSink,
+    NdjsonFileAuditSink,
+    BatchingAuditSink,
+} from "./audit-sinks";
+export type { BatchingAuditSinkOptions } from "./audit-sinks";
+export {
+    LocalPolicyEngine,
+    evaluatePolicies,
+    explainPolicies,
+} from "./local-policy-engine";
+export type { LocalPolicyEngineOptions } from "./local-policy-engine";
 export type { PolicyEngine, PolicyContext, PolicyDecision } from "./policy-engine";
 
 /**
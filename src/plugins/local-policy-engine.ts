@@ -0,0 +1,150 @@
+import type { PolicyResponse, EffectiveAccess } from "../types";
+import type {
+    PolicyEngine,
+    PolicyContext,
+    PolicyDecision,
+} from "./policy-engine";
+import { matchesGlob } from "../core/glob";
+
+/** Permissions that satisfy each operation, in order of preference. */
+const OPERATION_PERMISSIONS: Record<PolicyContext["operation"], string[]> = {
+    read: ["read"],
+    write: ["write"],
+    delete: ["delete", "write"],
+    list: ["list", "read"],
+};
+
+function isExpired(policy: PolicyResponse, now: number): boolean {
+    return !!policy.expires_at && Date.parse(policy.expires_at) <= now;
+}
+
+/**
+ * Evaluate vault policies against a context, the same way the server
+ * matches `secret_path_pattern` globs. Policies for other principals,
+ * other vaults, or past their `expires_at` are ignored. For `list`, any
+ * grant with `list`/`read` permission in the vault allows the call —
+ * the server filters the results. `conditions` are not evaluated
+ * locally, so a matching grant with conditions counts as allowed.
+ */
+export function evaluatePolicies(
+    policies: PolicyResponse[],
+    context: PolicyContext,
+    now: number = Date.now(),
+): PolicyDecision {
+    const accepted = OPERATION_PERMISSIONS[context.operation];
+    const principal = `${context.principalType} ${context.principalId}`;
+
+    for (const policy of policies) {
+        if (
+            policy.principal_type !== context.principalType ||
+            policy.principal_id !== context.principalId
+        )
+            continue;
+        if (context.vaultId && policy.vault_id !== context.vaultId) continue;
+        if (isExpired(policy, now)) continue;
+        if (!policy.permissions.some((p) => accepted.includes(p))) continue;
+        if (
+            context.operation !== "list" &&
+            !matchesGlob(policy.secret_path_pattern, context.secretPath)
+        )
+            continue;
+
+        return {
+            allowed: true,
+            reason: `Policy ${policy.id} grants ${context.operation} on "${policy.secret_path_pattern}" to ${principal}`,
+            matchedPolicyId: policy.id,
+        };
+    }
+
+    return {
+        allowed: false,
+        reason: `No policy grants ${context.operation} on "${context.secretPath}" to ${principal}`,
+    };
+}
+
+/**
+ * Group the unexpired policies whose pattern matches `secretPath` by
+ * principal, with the union of the permissions they grant.
+ */
+export function explainPolicies(
+    policies: PolicyResponse[],
+    secretPath: string,
+    now: number = Date.now(),
+): EffectiveAccess[] {
+    const byPrincipal = new Map<string, EffectiveAccess>();
+    for (const policy of policies) {
+        if (isExpired(policy, now)) continue;
+        if (!matchesGlob(policy.secret_path_pattern, secretPath)) continue;
+
+        const key = `${policy.principal_type}:${policy.principal_id}`;
+        let entry = byPrincipal.get(key);
+        if (!entry) {
+            entry = {
+                principalType: policy.principal_type as EffectiveAccess["principalType"],
+                principalId: policy.principal_id,
+                permissions: [],
+                policies: [],
+            };
+            byPrincipal.set(key, entry);
+        }
+        for (const permission of policy.permissions) {
+            if (!entry.permissions.includes(permission)) {
+                entry.permissions.push(permission);
+            }
+        }
+        entry.policies.push(policy);
+    }
+    return [...byPrincipal.values()];
+}
+
+/** Options for `LocalPolicyEngine`. */
+export interface LocalPolicyEngineOptions {
+    /**
+     * Principal types evaluated locally (default: `["agent"]`). Others
+     * are allowed through — vault owners hold implicit access that does
+     * not appear in the policy list.
+     */
+    principalTypes?: PolicyContext["principalType"][];
+}
+
+/**
+ * Policy engine that evaluates a vault's own `PolicyResponse` list
+ * locally, so calls that the server would deny fail before they are
+ * sent (and metered). The server remains the source of truth.
+ *
+ * @example
+ * ```ts
+ * const { data } = await admin.access.listGrants(vaultId);
+ * const agent = createClient({
+ *   baseUrl, apiKey: "ocv_...",
+ *   plugins: { policyEngine: new LocalPolicyEngine(data!.policies) },
+ * });
+ * ```
+ */
+export class LocalPolicyEngine implements PolicyEngine {
+    private policies: PolicyResponse[];
+    private readonly principalTypes: PolicyContext["principalType"][];
+
+    constructor(
+        policies: PolicyResponse[] = [],
+        options: LocalPolicyEngineOptions = {},
+    ) {
+        this.policies = [...policies];
+        this.principalTypes = options.principalTypes ?? ["agent"];
+    }
+
+    /** Replace the policies used for evaluation (e.g. after a refresh). */
+    setPolicies(policies: PolicyResponse[]): void {
+        this.policies = [...policies];
+    }
+
+    async evaluate(context: PolicyContext): Promise<PolicyDecision> {
+        if (!this.principalTypes.includes(context.principalType)) {
+            return {
+                allowed: true,
+                reason: `${context.principalType} principals are evaluated by the server`,
+            };
+        }
+        return evaluatePolicies(this.policies, context);
+    }
+}
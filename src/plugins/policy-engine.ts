@@ -6,7 +6,9 @@ export interface PolicyContext {
     principalId: string;
     /** Principal type: "user" or "agent". */
     principalType: "user" | "agent";
-    /** The secret path being accessed. */
+    /** The vault containing the secret, when known. */
+    vaultId?: string;
+    /** The secret path being accessed (the prefix, for `list`). */
     secretPath: string;
     /** The operation being performed. */
     operation: "read" | "write" | "delete" | "list";
@@ -37,6 +39,11 @@ export interface PolicyDecision {
  * for actions that would be denied) or for integrating with external
  * policy systems like OPA.
  *
+ * When configured via `plugins.policyEngine`, `secrets.get`, `set`,
+ * `delete` and `list` call `evaluate` before going to the network and
+ * throw `PolicyDeniedError` when the decision is `allowed: false`.
+ * `LocalPolicyEngine` evaluates a vault's own policies locally.
+ *
  * @example
  * ```ts
  * import type { PolicyEngine, PolicyContext, PolicyDecision } from "@1claw/sdk";
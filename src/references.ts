@@ -0,0 +1,267 @@
+/**
+ * Secret references in configuration objects.
+ *
+ * A reference names a secret instead of holding its value. Two forms
+ * are recognised, with the same body:
+ *
+ *   1claw://<vault>/<path>[?pointer=<json-pointer>][#<version>]
+ *   {{1claw:<vault>/<path>[?pointer=<json-pointer>][#<version>]}}
+ *
+ * `<vault>` is a vault ID or name. `pointer` extracts a field from a
+ * secret whose value is JSON (RFC 6901, e.g. `/credentials/password`).
+ */
+
+import type { OneclawClient } from "./core/client";
+import {
+    UnresolvedReferencesError,
+    type UnresolvedReference,
+} from "./core/errors";
+import { mapConcurrent } from "./core/concurrency";
+import type { RequestOptions } from "./types";
+
+/** A parsed secret reference. */
+export interface SecretReference {
+    /** Vault ID or name. */
+    vault: string;
+    /** Secret path within the vault. */
+    path: string;
+    /** Specific version, if pinned. */
+    version?: number;
+    /** JSON pointer into the secret's JSON value, if any. */
+    pointer?: string;
+}
+
+/** Options for `resolveSecrets`. */
+export interface ResolveSecretsOptions extends RequestOptions {
+    /** Maximum secret fetches in flight at once (default: 8). */
+    concurrency?: number;
+}
+
+const REFERENCE_PATTERN =
+    /\{\{\s*1claw:([^}\s]+)\s*\}\}|1claw:\/\/([^\s"'<>{}]+)/g;
+const UUID_PATTERN =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse the body of a reference (`<vault>/<path>[?pointer=…][#<version>]`).
+ * Returns `undefined` if it is malformed.
+ */
+export function parseSecretReference(body: string): SecretReference | undefined {
+    let rest = body;
+    let version: number | undefined;
+    const hash = rest.lastIndexOf("#");
+    if (hash !== -1) {
+        const raw = rest.slice(hash + 1);
+        if (!/^\d+$/.test(raw)) return undefined;
+        version = Number(raw);
+        rest = rest.slice(0, hash);
+    }
+
+    let pointer: string | undefined;
+    const query = rest.indexOf("?");
+    if (query !== -1) {
+        const params = new URLSearchParams(rest.slice(query + 1));
+        pointer = params.get("pointer") ?? undefined;
+        if (pointer !== undefined && pointer !== "" && !pointer.startsWith("/")) {
+            return undefined;
+        }
+        rest = rest.slice(0, query);
+    }
+
+    const slash = rest.indexOf("/");
+    if (slash <= 0 || slash === rest.length - 1) return undefined;
+    try {
+        return {
+            vault: decodeURIComponent(rest.slice(0, slash)),
+            path: decodeURIComponent(rest.slice(slash + 1)),
+            version,
+            pointer,
+        };
+    } catch {
+        // Invalid percent-encoding (URIError).
+        return undefined;
+    }
+}
+
+/**
+ * Return a copy of `input` with every secret reference replaced by its
+ * value. Walks strings, arrays and plain objects. A string that is
+ * exactly one reference becomes the referenced value (which may be a
+ * number or object when a `pointer` selects one); references embedded
+ * in longer strings are interpolated.
+ *
+ * Each distinct secret (vault, path, version) is fetched once. If any
+ * reference fails, throws `UnresolvedReferencesError` listing all of
+ * them.
+ *
+ * @example
+ * ```ts
+ * const config = await resolveSecrets(client, {
+ *   db: { url: "1claw://prod/db/url", password: "{{1claw:prod/db/creds?pointer=/password}}" },
+ *   apiKey: "1claw://prod/stripe/key#3",
+ * });
+ * ```
+ */
+export async function resolveSecrets<T>(
+    client: OneclawClient,
+    input: T,
+    options: ResolveSecretsOptions = {},
+): Promise<T> {
+    const { concurrency = 8, ...requestOptions } = options;
+
+    // Pass 1: collect every reference.
+    const found: { ref: SecretReference; text: string; location: string }[] = [];
+    const failures: UnresolvedReference[] = [];
+    walk(input, "", (value, location) => {
+        for (const match of value.matchAll(REFERENCE_PATTERN)) {
+            const ref = parseSecretReference(match[1] ?? match[2]);
+            if (ref) found.push({ ref, text: match[0], location });
+            else failures.push({ reference: match[0], location, reason: "malformed reference" });
+        }
+        return value;
+    });
+    if (found.length === 0 && failures.length === 0) return input;
+
+    // Resolve vault names to IDs with a single list call, if needed.
+    const vaultIds = new Map<string, string>();
+    let vaultListError: string | undefined;
+    const names = [...new Set(found.map((f) => f.ref.vault))].filter(
+        (v) => !UUID_PATTERN.test(v),
+    );
+    if (names.length > 0) {
+        const res = await client.vault.list(requestOptions);
+        vaultListError = res.error?.message;
+        for (const vault of res.data?.vaults ?? []) {
+            vaultIds.set(vault.name, vault.id);
+            vaultIds.set(vault.id, vault.id);
+        }
+    }
+    const vaultIdOf = (vault: string) =>
+        UUID_PATTERN.test(vault) ? vault : vaultIds.get(vault);
+
+    // Fetch each distinct secret once.
+    const fetchKey = (ref: SecretReference) =>
+        `${ref.vault}\u0000${ref.path}\u0000${ref.version ?? ""}`;
+    const unique = new Map<string, SecretReference>();
+    for (const { ref } of found) unique.set(fetchKey(ref), ref);
+
+    const fetched = new Map<string, { value?: string; error?: string }>();
+    await mapConcurrent([...unique], concurrency, async ([key, ref]) => {
+        const vaultId = vaultIdOf(ref.vault);
+        if (!vaultId) {
+            fetched.set(key, {
+                error: vaultListError
+                    ? `could not list vaults: ${vaultListError}`
+                    : `unknown vault "${ref.vault}"`,
+            });
+            return;
+        }
+        try {
+            const res = await client.secrets.get(vaultId, ref.path, {
+                ...requestOptions,
+                version: ref.version,
+            });
+            fetched.set(
+                key,
+                res.error ? { error: res.error.message } : { value: res.data!.value },
+            );
+        } catch (err) {
+            if (requestOptions.signal?.aborted) throw err;
+            fetched.set(key, { error: err instanceof Error ? err.message : String(err) });
+        }
+    });
+
+    const lookup = (ref: SecretReference): { value?: unknown; error?: string } => {
+        const result = fetched.get(fetchKey(ref))!;
+        if (result.error !== undefined || !ref.pointer) return result;
+        return extractPointer(result.value!, ref.pointer);
+    };
+
+    // Pass 2: substitute.
+    const output = walk(input, "", (value, location) => {
+        const matches = [...value.matchAll(REFERENCE_PATTERN)];
+        if (matches.length === 1 && matches[0][0] === value) {
+            const ref = parseSecretReference(matches[0][1] ?? matches[0][2]);
+            if (!ref) return value;
+            const result = lookup(ref);
+            if (result.error !== undefined) {
+                failures.push({ reference: value, location, reason: result.error });
+                return value;
+            }
+            return result.value;
+        }
+        return value.replace(REFERENCE_PATTERN, (text, a, b) => {
+            const ref = parseSecretReference(a ?? b);
+            if (!ref) return text;
+            const result = lookup(ref);
+            if (result.error !== undefined) {
+                failures.push({ reference: text, location, reason: result.error });
+                return text;
+            }
+            return typeof result.value === "string"
+                ? result.value
+                : JSON.stringify(result.value);
+        });
+    });
+
+    if (failures.length > 0) throw new UnresolvedReferencesError(failures);
+    return output as T;
+}
+
+/** Apply an RFC 6901 JSON pointer to a JSON-encoded secret value. */
+function extractPointer(
+    raw: string,
+    pointer: string,
+): { value?: unknown; error?: string } {
+    let current: unknown;
+    try {
+        current = JSON.parse(raw);
+    } catch {
+        return { error: "secret value is not JSON; cannot apply pointer" };
+    }
+    if (pointer === "") return { value: current };
+    for (const token of pointer.slice(1).split("/")) {
+        const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+        if (
+            current === null ||
+            typeof current !== "object" ||
+            !Object.prototype.hasOwnProperty.call(current, key)
+        ) {
+            return { error: `pointer ${pointer} not found in secret value` };
+        }
+        current = (current as Record<string, unknown>)[key];
+    }
+    return { value: current };
+}
+
+/** Rebuild `value`, passing every string (with its JSON pointer location) to `visit`. */
+function walk(
+    value: unknown,
+    location: string,
+    visit: (value: string, location: string) => unknown,
+): unknown {
+    if (typeof value === "string") return visit(value, location);
+    if (Array.isArray(value)) {
+        return value.map((item, i) => walk(item, `${location}/${i}`, visit));
+    }
+    if (value && typeof value === "object" && isPlainObject(value)) {
+        const out: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(value)) {
+            const escaped = k.replace(/~/g, "~0").replace(/\//g, "~1");
+            // defineProperty, so a parsed "__proto__" key stays an own key.
+            Object.defineProperty(out, k, {
+                value: walk(v, `${location}/${escaped}`, visit),
+                enumerable: true,
+                writable: true,
+                configurable: true,
+            });
+        }
+        return out;
+    }
+    return value;
+}
+
+function isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
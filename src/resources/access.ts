@@ -1,13 +1,21 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     CreatePolicyRequest,
     UpdatePolicyRequest,
     PolicyResponse,
     PolicyListResponse,
+    SecretAccessExplanation,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import type { PolicyContext, PolicyDecision } from "../plugins";
+import {
+    evaluatePolicies,
+    explainPolicies,
+} from "../plugins/local-policy-engine";
 
-export interface GrantOptions {
+export interface GrantOptions extends RequestOptions {
     /** Glob pattern for which secret paths the grant covers (default: "**"). */
     secretPathPattern?: string;
     /** Additional conditions (e.g. IP allow-list, time windows). */
@@ -43,8 +51,13 @@ export class AccessResource {
         };
         return this.http.request<PolicyResponse>(
             "POST",
-            `/v1/vaults/${vaultId}/policies`,
-            { body },
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/policies`,
+            {
+                body,
+                signal: options.signal,
+                timeoutMs: options.timeoutMs,
+                audit: options.audit,
+            },
         );
     }
 
@@ -68,8 +81,13 @@ export class AccessResource {
         };
         return this.http.request<PolicyResponse>(
             "POST",
-            `/v1/vaults/${vaultId}/policies`,
-            { body },
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/policies`,
+            {
+                body,
+                signal: options.signal,
+                timeoutMs: options.timeoutMs,
+                audit: options.audit,
+            },
         );
     }
 
@@ -78,11 +96,12 @@ export class AccessResource {
         vaultId: string,
         policyId: string,
         update: UpdatePolicyRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<PolicyResponse>> {
         return this.http.request<PolicyResponse>(
             "PUT",
-            `/v1/vaults/${vaultId}/policies/${policyId}`,
-            { body: update },
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/policies/${encodePathId(policyId, "policy ID")}`,
+            { body: update, ...options },
         );
     }
 
@@ -90,20 +109,86 @@ export class AccessResource {
     async revoke(
         vaultId: string,
         policyId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<void>> {
         return this.http.request<void>(
             "DELETE",
-            `/v1/vaults/${vaultId}/policies/${policyId}`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/policies/${encodePathId(policyId, "policy ID")}`,
+            options,
         );
     }
 
     /** List all access grants (policies) on a vault. */
     async listGrants(
         vaultId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<PolicyListResponse>> {
         return this.http.request<PolicyListResponse>(
             "GET",
-            `/v1/vaults/${vaultId}/policies`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/policies`,
+            options,
         );
     }
+
+    /**
+     * List every principal with effective permissions on a secret path,
+     * and the policies that grant them. Evaluated locally from
+     * `listGrants`: globs and `expires_at` are applied; `conditions`
+     * are returned on each policy but not evaluated. Vault owners'
+     * implicit access is not included.
+     */
+    async explain(
+        vaultId: string,
+        secretPath: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<SecretAccessExplanation>> {
+        const res = await this.listGrants(vaultId, options);
+        if (res.error) return { data: null, error: res.error, meta: res.meta };
+        return {
+            data: {
+                vaultId,
+                secretPath,
+                principals: explainPolicies(res.data!.policies, secretPath),
+            },
+            error: null,
+            meta: res.meta,
+        };
+    }
+
+    /**
+     * Check whether a principal may perform an operation on a secret
+     * path, evaluated locally from `listGrants` with the same rules as
+     * `LocalPolicyEngine`.
+     *
+     * @example
+     * ```ts
+     * const { data } = await client.access.can(
+     *   vaultId,
+     *   { principalType: "agent", principalId: agentId },
+     *   "prod/db-password",
+     *   "read",
+     * );
+     * if (!data?.allowed) console.log(data?.reason);
+     * ```
+     */
+    async can(
+        vaultId: string,
+        principal: Pick<PolicyContext, "principalType" | "principalId">,
+        secretPath: string,
+        operation: PolicyContext["operation"],
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<PolicyDecision>> {
+        const res = await this.listGrants(vaultId, options);
+        if (res.error) return { data: null, error: res.error, meta: res.meta };
+        return {
+            data: evaluatePolicies(res.data!.policies, {
+                ...principal,
+                vaultId,
+                secretPath,
+                operation,
+            }),
+            error: null,
+            meta: res.meta,
+        };
+    }
 }
@@ -1,4 +1,6 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
+import { paginate, pageOf, type PaginateOptions } from "../core/paginate";
 import type {
     CreateAgentRequest,
     UpdateAgentRequest,
@@ -17,7 +19,9 @@ import type {
     TransactionResponse,
     TransactionListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import { fetchWithTimeout } from "../core/http";
 
 /**
  * Agents resource — register, manage, and rotate keys for AI agents
@@ -32,9 +36,11 @@ export class AgentsResource {
      */
     async create(
         options: CreateAgentRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<AgentCreatedResponse>> {
         return this.http.request<AgentCreatedResponse>("POST", "/v1/agents", {
             body: options,
+            ...requestOptions,
         });
     }
 
@@ -44,27 +50,35 @@ export class AgentsResource {
      */
     async enroll(
         options: EnrollAgentRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<EnrollAgentResponse>> {
         return this.http.request<EnrollAgentResponse>(
             "POST",
             "/v1/agents/enroll",
-            { body: options },
+            { body: options, ...requestOptions },
         );
     }
 
     /**
      * Static helper to self-enroll without an existing client instance.
-     * Useful when the agent has no credentials yet.
+     * Useful when the agent has no credentials yet. Pass `fetch` to use
+     * a custom `fetch` implementation.
      */
     static async enroll(
         baseUrl: string,
         options: EnrollAgentRequest,
+        requestOptions?: RequestOptions & { fetch?: typeof fetch },
     ): Promise<EnrollAgentResponse> {
-        const res = await fetch(`${baseUrl}/v1/agents/enroll`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(options),
-        });
+        const res = await fetchWithTimeout(
+            `${baseUrl}/v1/agents/enroll`,
+            {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(options),
+            },
+            requestOptions,
+            requestOptions?.fetch,
+        );
         if (!res.ok) {
             const body = await res.json().catch(() => ({}));
             throw new Error(
@@ -75,35 +89,77 @@ export class AgentsResource {
     }
 
     /** Fetch the calling agent's own profile (includes `created_by`). */
-    async getSelf(): Promise<OneclawResponse<AgentSelfResponse>> {
-        return this.http.request<AgentSelfResponse>("GET", "/v1/agents/me");
+    async getSelf(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<AgentSelfResponse>> {
+        return this.http.request<AgentSelfResponse>(
+            "GET",
+            "/v1/agents/me",
+            options,
+        );
     }
 
     /** Fetch a single agent by ID. */
-    async get(agentId: string): Promise<OneclawResponse<AgentResponse>> {
-        return this.http.request<AgentResponse>("GET", `/v1/agents/${agentId}`);
+    async get(
+        agentId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<AgentResponse>> {
+        return this.http.request<AgentResponse>(
+            "GET",
+            `/v1/agents/${encodePathId(agentId, "agent ID")}`,
+            options,
+        );
     }
 
     /** List all agents in the current organization. */
-    async list(): Promise<OneclawResponse<AgentListResponse>> {
-        return this.http.request<AgentListResponse>("GET", "/v1/agents");
+    async list(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<AgentListResponse>> {
+        return this.http.request<AgentListResponse>(
+            "GET",
+            "/v1/agents",
+            options,
+        );
+    }
+
+    /**
+     * Iterate over agents. The list endpoint does not page, so this makes
+     * one request; `maxItems` still stops early.
+     */
+    iterate(
+        options: PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<AgentResponse, void, undefined> {
+        const { pageSize: _pageSize, maxItems, ...requestOptions } = options;
+        return paginate(
+            async () =>
+                pageOf(await this.list(requestOptions), (data) => data.agents, false),
+            { maxItems },
+        );
     }
 
     /** Update agent name, scopes, active status, expiry, or Intents API setting. */
     async update(
         agentId: string,
         update: UpdateAgentRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<AgentResponse>> {
         return this.http.request<AgentResponse>(
             "PATCH",
-            `/v1/agents/${agentId}`,
-            { body: update },
+            `/v1/agents/${encodePathId(agentId, "agent ID")}`,
+            { body: update, ...options },
         );
     }
 
     /** Delete an agent permanently. */
-    async delete(agentId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/agents/${agentId}`);
+    async delete(
+        agentId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "DELETE",
+            `/v1/agents/${encodePathId(agentId, "agent ID")}`,
+            options,
+        );
     }
 
     /**
@@ -112,10 +168,12 @@ export class AgentsResource {
      */
     async rotateKey(
         agentId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<AgentKeyRotatedResponse>> {
         return this.http.request<AgentKeyRotatedResponse>(
             "POST",
-            `/v1/agents/${agentId}/rotate-key`,
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/rotate-key`,
+            options,
         );
     }
 
@@ -132,13 +190,19 @@ export class AgentsResource {
     async submitTransaction(
         agentId: string,
         tx: SubmitTransactionRequest,
-        options?: { idempotencyKey?: string },
+        options?: { idempotencyKey?: string } & RequestOptions,
     ): Promise<OneclawResponse<TransactionResponse>> {
         const key = options?.idempotencyKey ?? crypto.randomUUID();
         return this.http.request<TransactionResponse>(
             "POST",
-            `/v1/agents/${agentId}/transactions`,
-            { body: tx, headers: { "Idempotency-Key": key } },
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/transactions`,
+            {
+                body: tx,
+                headers: { "Idempotency-Key": key },
+                signal: options?.signal,
+                timeoutMs: options?.timeoutMs,
+                audit: options?.audit,
+            },
         );
     }
 
@@ -149,7 +213,7 @@ export class AgentsResource {
     async getTransaction(
         agentId: string,
         txId: string,
-        options?: { includeSignedTx?: boolean },
+        options?: { includeSignedTx?: boolean } & RequestOptions,
     ): Promise<OneclawResponse<TransactionResponse>> {
         const qs =
             options?.includeSignedTx === true
@@ -157,7 +221,12 @@ export class AgentsResource {
                 : "";
         return this.http.request<TransactionResponse>(
             "GET",
-            `/v1/agents/${agentId}/transactions/${txId}${qs}`,
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/transactions/${encodePathId(txId, "transaction ID")}${qs}`,
+            {
+                signal: options?.signal,
+                timeoutMs: options?.timeoutMs,
+                audit: options?.audit,
+            },
         );
     }
 
@@ -167,7 +236,7 @@ export class AgentsResource {
      */
     async listTransactions(
         agentId: string,
-        options?: { includeSignedTx?: boolean },
+        options?: { includeSignedTx?: boolean } & RequestOptions,
     ): Promise<OneclawResponse<TransactionListResponse>> {
         const qs =
             options?.includeSignedTx === true
@@ -175,7 +244,12 @@ export class AgentsResource {
                 : "";
         return this.http.request<TransactionListResponse>(
             "GET",
-            `/v1/agents/${agentId}/transactions${qs}`,
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/transactions${qs}`,
+            {
+                signal: options?.signal,
+                timeoutMs: options?.timeoutMs,
+                audit: options?.audit,
+            },
         );
     }
 
@@ -188,11 +262,12 @@ export class AgentsResource {
     async simulateTransaction(
         agentId: string,
         tx: SimulateTransactionRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<SimulationResponse>> {
         return this.http.request<SimulationResponse>(
             "POST",
-            `/v1/agents/${agentId}/transactions/simulate`,
-            { body: tx },
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/transactions/simulate`,
+            { body: tx, ...options },
         );
     }
 
@@ -202,11 +277,12 @@ export class AgentsResource {
     async simulateBundle(
         agentId: string,
         bundle: SimulateBundleRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<BundleSimulationResponse>> {
         return this.http.request<BundleSimulationResponse>(
             "POST",
-            `/v1/agents/${agentId}/transactions/simulate-bundle`,
-            { body: bundle },
+            `/v1/agents/${encodePathId(agentId, "agent ID")}/transactions/simulate-bundle`,
+            { body: bundle, ...options },
         );
     }
 }
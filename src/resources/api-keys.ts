@@ -1,9 +1,11 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     CreateApiKeyRequest,
     ApiKeyCreatedResponse,
     ApiKeyListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
 /**
@@ -19,24 +21,35 @@ export class ApiKeysResource {
      */
     async create(
         options: CreateApiKeyRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<ApiKeyCreatedResponse>> {
         return this.http.request<ApiKeyCreatedResponse>(
             "POST",
             "/v1/auth/api-keys",
-            { body: options },
+            { body: options, ...requestOptions },
         );
     }
 
     /** List all API keys for the current user (keys are masked). */
-    async list(): Promise<OneclawResponse<ApiKeyListResponse>> {
+    async list(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ApiKeyListResponse>> {
         return this.http.request<ApiKeyListResponse>(
             "GET",
             "/v1/auth/api-keys",
+            options,
         );
     }
 
     /** Revoke (deactivate) an API key by its ID. */
-    async revoke(keyId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/auth/api-keys/${keyId}`);
+    async revoke(
+        keyId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "DELETE",
+            `/v1/auth/api-keys/${encodePathId(keyId, "API key ID")}`,
+            options,
+        );
     }
 }
@@ -1,9 +1,11 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     ApprovalRequest,
     CreateApprovalRequest,
     ApprovalListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
 /**
@@ -25,9 +27,11 @@ export class ApprovalsResource {
      */
     async request(
         options: CreateApprovalRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<ApprovalRequest>> {
         return this.http.request<ApprovalRequest>("POST", "/v1/approvals", {
             body: options,
+            ...requestOptions,
         });
     }
 
@@ -37,19 +41,23 @@ export class ApprovalsResource {
      */
     async list(
         status?: "pending" | "approved" | "denied",
+        options?: RequestOptions,
     ): Promise<OneclawResponse<ApprovalListResponse>> {
         return this.http.request<ApprovalListResponse>("GET", "/v1/approvals", {
             query: status ? { status } : undefined,
+            ...options,
         });
     }
 
     /** Approve a pending request. */
     async approve(
         requestId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<ApprovalRequest>> {
         return this.http.request<ApprovalRequest>(
             "POST",
-            `/v1/approvals/${requestId}/approve`,
+            `/v1/approvals/${encodePathId(requestId, "approval request ID")}/approve`,
+            options,
         );
     }
 
@@ -57,11 +65,12 @@ export class ApprovalsResource {
     async deny(
         requestId: string,
         reason?: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<ApprovalRequest>> {
         return this.http.request<ApprovalRequest>(
             "POST",
-            `/v1/approvals/${requestId}/deny`,
-            { body: reason ? { reason } : undefined },
+            `/v1/approvals/${encodePathId(requestId, "approval request ID")}/deny`,
+            { body: reason ? { reason } : undefined, ...options },
         );
     }
 
@@ -69,10 +78,14 @@ export class ApprovalsResource {
      * Poll for the status of a specific approval request.
      * Returns the current state — useful for agents waiting on approval.
      */
-    async check(requestId: string): Promise<OneclawResponse<ApprovalRequest>> {
+    async check(
+        requestId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ApprovalRequest>> {
         return this.http.request<ApprovalRequest>(
             "GET",
-            `/v1/approvals/${requestId}`,
+            `/v1/approvals/${encodePathId(requestId, "approval request ID")}`,
+            options,
         );
     }
 
@@ -1,5 +1,12 @@
 import type { HttpClient } from "../core/http";
-import type { AuditQuery, AuditEventsResponse, OneclawResponse } from "../types";
+import { paginate, pageOf, type PaginateOptions } from "../core/paginate";
+import type {
+    AuditQuery,
+    AuditEvent,
+    AuditEventsResponse,
+    OneclawResponse,
+    RequestOptions,
+} from "../types";
 
 /**
  * Audit resource — query the immutable audit log of all vault operations.
@@ -21,6 +28,7 @@ export class AuditResource {
      */
     async query(
         filters: AuditQuery = {},
+        options?: RequestOptions,
     ): Promise<OneclawResponse<AuditEventsResponse>> {
         const query: Record<string, string | number | undefined> = {};
         if (filters.resource_id) query.resource_id = filters.resource_id;
@@ -36,7 +44,38 @@ export class AuditResource {
             "/v1/audit/events",
             {
                 query,
+                ...options,
             },
         );
     }
+
+    /**
+     * Iterate over every matching audit event, fetching `pageSize` events
+     * per request. `filters.offset` sets where to start.
+     *
+     * @example
+     * ```ts
+     * for await (const event of client.audit.iterate({ action: "secret.read" }, { maxItems: 1000 })) {
+     *     console.log(event.actor_id, event.created_at);
+     * }
+     * ```
+     */
+    iterate(
+        filters: Omit<AuditQuery, "limit"> = {},
+        options: PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<AuditEvent, void, undefined> {
+        const { pageSize, maxItems, ...requestOptions } = options;
+        const start = filters.offset ?? 0;
+        return paginate(
+            async ({ offset, limit }) =>
+                pageOf(
+                    await this.query(
+                        { ...filters, offset: start + offset, limit },
+                        requestOptions,
+                    ),
+                    (data) => data.events,
+                ),
+            { pageSize, maxItems },
+        );
+    }
 }
@@ -11,6 +11,7 @@ import type {
     UpdateProfileRequest,
     DeleteAccountRequest,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
 /**
@@ -27,11 +28,12 @@ export class AuthResource {
      */
     async login(
         credentials: TokenRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<TokenResponse>> {
         const res = await this.http.request<TokenResponse>(
             "POST",
             "/v1/auth/token",
-            { body: credentials },
+            { body: credentials, ...options },
         );
         if (res.data?.access_token) {
             this.http.setToken(res.data.access_token);
@@ -46,11 +48,12 @@ export class AuthResource {
      */
     async signup(
         credentials: SignupRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<TokenResponse>> {
         const res = await this.http.request<TokenResponse>(
             "POST",
             "/v1/auth/signup",
-            { body: credentials },
+            { body: credentials, ...options },
         );
         if (res.data?.access_token) {
             this.http.setToken(res.data.access_token);
@@ -64,11 +67,12 @@ export class AuthResource {
      */
     async agentToken(
         credentials: AgentTokenRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<TokenResponse>> {
         const res = await this.http.request<TokenResponse>(
             "POST",
             "/v1/auth/agent-token",
-            { body: credentials },
+            { body: credentials, ...options },
         );
         if (res.data?.access_token) {
             this.http.setToken(res.data.access_token);
@@ -82,11 +86,12 @@ export class AuthResource {
      */
     async apiKeyToken(
         credentials: UserApiKeyTokenRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<TokenResponse>> {
         const res = await this.http.request<TokenResponse>(
             "POST",
             "/v1/auth/api-key-token",
-            { body: credentials },
+            { body: credentials, ...options },
         );
         if (res.data?.access_token) {
             this.http.setToken(res.data.access_token);
@@ -100,11 +105,12 @@ export class AuthResource {
      */
     async google(
         credentials: GoogleAuthRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<TokenResponse>> {
         const res = await this.http.request<TokenResponse>(
             "POST",
             "/v1/auth/google",
-            { body: credentials },
+            { body: credentials, ...options },
         );
         if (res.data?.access_token) {
             this.http.setToken(res.data.access_token);
@@ -115,39 +121,55 @@ export class AuthResource {
     /** Change the current user's password. */
     async changePassword(
         request: ChangePasswordRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<void>> {
         return this.http.request<void>("POST", "/v1/auth/change-password", {
             body: request,
+            ...options,
         });
     }
 
     /** Revoke the current session token. */
-    async logout(): Promise<OneclawResponse<void>> {
-        const res = await this.http.request<void>("DELETE", "/v1/auth/token");
+    async logout(options?: RequestOptions): Promise<OneclawResponse<void>> {
+        const res = await this.http.request<void>(
+            "DELETE",
+            "/v1/auth/token",
+            options,
+        );
         this.http.setToken("");
         return res;
     }
 
     /** Get the current user's profile. */
-    async getMe(): Promise<OneclawResponse<UserProfileResponse>> {
-        return this.http.request<UserProfileResponse>("GET", "/v1/auth/me");
+    async getMe(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<UserProfileResponse>> {
+        return this.http.request<UserProfileResponse>(
+            "GET",
+            "/v1/auth/me",
+            options,
+        );
     }
 
     /** Update the current user's profile (display name, marketing opt-in). */
     async updateMe(
         update: UpdateProfileRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<UserProfileResponse>> {
         return this.http.request<UserProfileResponse>("PATCH", "/v1/auth/me", {
             body: update,
+            ...options,
         });
     }
 
     /** Delete the current user's account and all associated data. */
     async deleteMe(
         request: DeleteAccountRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<void>> {
         return this.http.request<void>("DELETE", "/v1/auth/me", {
             body: request,
+            ...options,
         });
     }
 }
@@ -1,10 +1,18 @@
 import type { HttpClient } from "../core/http";
+import { paginate, pageOf, type PaginateOptions } from "../core/paginate";
 import type {
     UsageSummaryResponse,
     UsageHistoryResponse,
+    UsageEventResponse,
+    CreditTransaction,
+    CreditTransactionListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
+/** Largest `limit` the usage history endpoint accepts. */
+const MAX_HISTORY_LIMIT = 200;
+
 /**
  * Billing resource — view API usage summaries and per-request history.
  */
@@ -12,10 +20,13 @@ export class BillingResource {
     constructor(private readonly http: HttpClient) {}
 
     /** Get the current month's usage summary (free tier remaining, costs). */
-    async usage(): Promise<OneclawResponse<UsageSummaryResponse>> {
+    async usage(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<UsageSummaryResponse>> {
         return this.http.request<UsageSummaryResponse>(
             "GET",
             "/v1/billing/usage",
+            options,
         );
     }
 
@@ -25,13 +36,63 @@ export class BillingResource {
      */
     async history(
         limit?: number,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<UsageHistoryResponse>> {
         return this.http.request<UsageHistoryResponse>(
             "GET",
             "/v1/billing/history",
             {
                 query: limit !== undefined ? { limit } : undefined,
+                ...options,
             },
         );
     }
+
+    /**
+     * Iterate over recent usage events. The history endpoint does not
+     * page, so this makes one request for up to 200 events (fewer with
+     * `maxItems`).
+     */
+    iterateHistory(
+        options: PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<UsageEventResponse, void, undefined> {
+        const { pageSize: _pageSize, maxItems, ...requestOptions } = options;
+        const limit = Math.min(maxItems ?? MAX_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+        return paginate(
+            async () =>
+                pageOf(
+                    await this.history(Math.max(limit, 1), requestOptions),
+                    (data) => data.events,
+                    false,
+                ),
+            { maxItems },
+        );
+    }
+
+    /** Get one page of the credit ledger, newest first. */
+    async creditTransactions(
+        options: { page?: number; limit?: number } & RequestOptions = {},
+    ): Promise<OneclawResponse<CreditTransactionListResponse>> {
+        const { page, limit, ...requestOptions } = options;
+        return this.http.request<CreditTransactionListResponse>(
+            "GET",
+            "/v1/billing/credits/transactions",
+            { query: { page, limit }, ...requestOptions },
+        );
+    }
+
+    /** Iterate over the whole credit ledger, `pageSize` transactions per request. */
+    iterateCreditTransactions(
+        options: PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<CreditTransaction, void, undefined> {
+        const { pageSize, maxItems, ...requestOptions } = options;
+        return paginate(
+            async ({ page, limit }) =>
+                pageOf(
+                    await this.creditTransactions({ ...requestOptions, page, limit }),
+                    (data) => data.transactions,
+                ),
+            { pageSize, maxItems },
+        );
+    }
 }
@@ -1,10 +1,12 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     ChainResponse,
     ChainListResponse,
     CreateChainRequest,
     UpdateChainRequest,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
 /**
@@ -17,31 +19,49 @@ export class ChainsResource {
     constructor(private readonly http: HttpClient) {}
 
     /** List all enabled chains. */
-    async list(): Promise<OneclawResponse<ChainListResponse>> {
-        return this.http.request<ChainListResponse>("GET", "/v1/chains");
+    async list(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ChainListResponse>> {
+        return this.http.request<ChainListResponse>(
+            "GET",
+            "/v1/chains",
+            options,
+        );
     }
 
     /** Get a chain by name (e.g. "base") or numeric chain ID (e.g. "8453"). */
-    async get(identifier: string): Promise<OneclawResponse<ChainResponse>> {
+    async get(
+        identifier: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ChainResponse>> {
         return this.http.request<ChainResponse>(
             "GET",
-            `/v1/chains/${identifier}`,
+            `/v1/chains/${encodePathId(identifier, "chain identifier")}`,
+            options,
         );
     }
 
     // ── Admin ──────────────────────────────────────────────────────
 
     /** List all chains including disabled ones (admin). */
-    async adminList(): Promise<OneclawResponse<ChainListResponse>> {
-        return this.http.request<ChainListResponse>("GET", "/v1/admin/chains");
+    async adminList(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ChainListResponse>> {
+        return this.http.request<ChainListResponse>(
+            "GET",
+            "/v1/admin/chains",
+            options,
+        );
     }
 
     /** Add a new chain to the registry (admin). */
     async create(
         chain: CreateChainRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<ChainResponse>> {
         return this.http.request<ChainResponse>("POST", "/v1/admin/chains", {
             body: chain,
+            ...options,
         });
     }
 
@@ -49,16 +69,24 @@ export class ChainsResource {
     async update(
         chainId: string,
         update: UpdateChainRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<ChainResponse>> {
         return this.http.request<ChainResponse>(
             "PUT",
-            `/v1/admin/chains/${chainId}`,
-            { body: update },
+            `/v1/admin/chains/${encodePathId(chainId, "chain ID")}`,
+            { body: update, ...options },
         );
     }
 
     /** Remove a chain from the registry (admin). */
-    async delete(chainId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/admin/chains/${chainId}`);
+    async delete(
+        chainId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "DELETE",
+            `/v1/admin/chains/${encodePathId(chainId, "chain ID")}`,
+            options,
+        );
     }
 }
@@ -1,9 +1,11 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     OrgMemberResponse,
     OrgMemberListResponse,
     UpdateMemberRoleRequest,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
 
 /**
@@ -13,10 +15,13 @@ export class OrgResource {
     constructor(private readonly http: HttpClient) {}
 
     /** List all members of the current organization. */
-    async listMembers(): Promise<OneclawResponse<OrgMemberListResponse>> {
+    async listMembers(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<OrgMemberListResponse>> {
         return this.http.request<OrgMemberListResponse>(
             "GET",
             "/v1/org/members",
+            options,
         );
     }
 
@@ -24,16 +29,24 @@ export class OrgResource {
     async updateMemberRole(
         userId: string,
         role: UpdateMemberRoleRequest["role"],
+        options?: RequestOptions,
     ): Promise<OneclawResponse<OrgMemberResponse>> {
         return this.http.request<OrgMemberResponse>(
             "PATCH",
-            `/v1/org/members/${userId}`,
-            { body: { role } },
+            `/v1/org/members/${encodePathId(userId, "user ID")}`,
+            { body: { role }, ...options },
         );
     }
 
     /** Remove a member from the organization. */
-    async removeMember(userId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/org/members/${userId}`);
+    async removeMember(
+        userId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "DELETE",
+            `/v1/org/members/${encodePathId(userId, "user ID")}`,
+            options,
+        );
     }
 }
@@ -0,0 +1,346 @@
+import { mapConcurrent } from "../core/concurrency";
+import { parseDuration } from "../core/duration";
+import { OneclawError } from "../core/errors";
+import type {
+    AgentResponse,
+    OneclawResponse,
+    RequestOptions,
+    VaultResponse,
+} from "../types";
+import type { VaultResource } from "./vault";
+import type { SecretsResource } from "./secrets";
+import type { AccessResource } from "./access";
+import type { ApiKeysResource } from "./api-keys";
+import type { AgentsResource } from "./agents";
+import type { SharingResource } from "./sharing";
+
+/** What an `ExpiringItem` describes. */
+export type ExpiringKind = "secret" | "grant" | "api_key" | "agent" | "share";
+
+/** Sort keys accepted by `sortExpiringItems`. */
+export type ExpiringSortKey = "expiresAt" | "owner" | "kind" | "name";
+
+/** Something with an `expires_at` inside the report window. */
+export interface ExpiringItem {
+    kind: ExpiringKind;
+    /** ID of the secret, policy, API key, agent or share. */
+    id: string;
+    /**
+     * Human-readable label: the secret path, the grant's path pattern,
+     * the API key or agent name, or the share recipient.
+     */
+    name: string;
+    /**
+     * Who loses access when the item lapses, as `type:name` — the vault
+     * for secrets (`vault:prod`), the grantee for grants
+     * (`agent:deployer`, `user:<id>`), `self` for your own API keys and
+     * outbound shares, and the agent itself for agents.
+     */
+    owner: string;
+    /** Vault the secret or grant belongs to. */
+    vaultId?: string;
+    /** ISO 8601 expiry. */
+    expiresAt: string;
+    /** Milliseconds until expiry; negative once expired. */
+    expiresInMs: number;
+    expired: boolean;
+}
+
+/** Items sharing one `owner`, soonest expiry first. */
+export interface ExpiringGroup {
+    owner: string;
+    items: ExpiringItem[];
+}
+
+/** A part of the scan that could not be read. */
+export interface ExpiringScanError {
+    /** What was being listed, e.g. `"api_keys"` or `"vault:prod/secrets"`. */
+    source: string;
+    message: string;
+}
+
+/** Result of `reports.expiring`. */
+export interface ExpiringReport {
+    /** When the scan ran (ISO 8601). */
+    generatedAt: string;
+    /** Window length in milliseconds. */
+    withinMs: number;
+    /** Every matching item, ordered by `sortBy`. */
+    items: ExpiringItem[];
+    /** The same items grouped by `owner`; groups are ordered by their soonest expiry. */
+    groups: ExpiringGroup[];
+    /** Sources that failed; their items are missing from the report. */
+    errors: ExpiringScanError[];
+}
+
+/** Options for `reports.expiring`. */
+export interface ExpiringReportOptions extends RequestOptions {
+    /** Report items expiring within this window: ms or a duration such as "14d" (default: "14d"). */
+    within?: string | number;
+    /** Include items that have already expired (default: true). */
+    includeExpired?: boolean;
+    /** Only scan these kinds (default: all). */
+    kinds?: ExpiringKind[];
+    /** Only scan these vaults for secrets and grants (default: every visible vault). */
+    vaultIds?: string[];
+    /** Order of `items` (default: "expiresAt"). */
+    sortBy?: ExpiringSortKey;
+    /** Maximum vaults scanned at once (default: 4). */
+    concurrency?: number;
+}
+
+/** Resources the report reads from. */
+export interface ReportSources {
+    vault: VaultResource;
+    secrets: SecretsResource;
+    access: AccessResource;
+    apiKeys: ApiKeysResource;
+    agents: AgentsResource;
+    sharing: SharingResource;
+}
+
+const ALL_KINDS: ExpiringKind[] = ["secret", "grant", "api_key", "agent", "share"];
+
+/**
+ * Reports resource — read-only summaries built from the other resources.
+ */
+export class ReportsResource {
+    constructor(
+        private readonly sources: ReportSources,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /**
+     * List secrets, grants, API keys, agents and outbound shares that
+     * expire within `within`. Inactive API keys and agents are left out.
+     * A source that can't be listed — an error response, or a thrown
+     * error such as a policy denial or network failure — is recorded in
+     * `errors` and the rest of the report is still returned. A caller
+     * abort still rejects.
+     *
+     * @example
+     * ```ts
+     * const { data } = await client.reports.expiring({ within: "14d" });
+     * console.log(renderExpiringReport(data!, "markdown"));
+     * ```
+     */
+    async expiring(
+        options: ExpiringReportOptions = {},
+    ): Promise<OneclawResponse<ExpiringReport>> {
+        const {
+            within = "14d",
+            includeExpired = true,
+            kinds = ALL_KINDS,
+            vaultIds,
+            sortBy = "expiresAt",
+            concurrency = 4,
+            ...requestOptions
+        } = options;
+        const withinMs = parseDuration(within);
+        const now = this.now();
+        const wanted = new Set(kinds);
+        const items: ExpiringItem[] = [];
+        const errors: ExpiringScanError[] = [];
+
+        const add = (item: Omit<ExpiringItem, "expiresInMs" | "expired">) => {
+            const at = Date.parse(item.expiresAt);
+            if (Number.isNaN(at)) return;
+            const expiresInMs = at - now;
+            if (expiresInMs > withinMs) return;
+            if (expiresInMs <= 0 && !includeExpired) return;
+            items.push({ ...item, expiresInMs, expired: expiresInMs <= 0 });
+        };
+
+        // Agents are listed whenever grants are scanned, to name grantees.
+        let agents: AgentResponse[] = [];
+        if (wanted.has("agent") || wanted.has("grant")) {
+            const res = await settle(requestOptions.signal, () =>
+                this.sources.agents.list(requestOptions),
+            );
+            if (res.error) errors.push({ source: "agents", message: res.error.message });
+            else agents = res.data!.agents;
+        }
+        const agentNames = new Map(agents.map((a) => [a.id, a.name]));
+
+        if (wanted.has("agent")) {
+            for (const agent of agents) {
+                if (!agent.is_active || !agent.expires_at) continue;
+                add({
+                    kind: "agent",
+                    id: agent.id,
+                    name: agent.name,
+                    owner: `agent:${agent.name}`,
+                    expiresAt: agent.expires_at,
+                });
+            }
+        }
+
+        if (wanted.has("api_key")) {
+            const res = await settle(requestOptions.signal, () =>
+                this.sources.apiKeys.list(requestOptions),
+            );
+            if (res.error) {
+                errors.push({ source: "api_keys", message: res.error.message });
+            } else {
+                for (const key of res.data!.keys) {
+                    if (!key.is_active || !key.expires_at) continue;
+                    add({
+                        kind: "api_key",
+                        id: key.id,
+                        name: `${key.name} (${key.key_prefix}…)`,
+                        owner: "self",
+                        expiresAt: key.expires_at,
+                    });
+                }
+            }
+        }
+
+        if (wanted.has("share")) {
+            const res = await settle(requestOptions.signal, () =>
+                this.sources.sharing.listOutbound(requestOptions),
+            );
+            if (res.error) {
+                errors.push({ source: "shares", message: res.error.message });
+            } else {
+                for (const share of res.data!.shares) {
+                    add({
+                        kind: "share",
+                        id: share.id,
+                        name: share.recipient_email ?? share.recipient_type,
+                        owner: "self",
+                        expiresAt: share.expires_at,
+                    });
+                }
+            }
+        }
+
+        if (wanted.has("secret") || wanted.has("grant")) {
+            const vaults = await this.listVaults(vaultIds, requestOptions, errors);
+            await mapConcurrent(vaults, concurrency, async (vault) => {
+                const label = `vault:${vault.name}`;
+                if (wanted.has("secret")) {
+                    const res = await settle(requestOptions.signal, () =>
+                        this.sources.secrets.list(vault.id, undefined, requestOptions),
+                    );
+                    if (res.error) {
+                        errors.push({ source: `${label}/secrets`, message: res.error.message });
+                    } else {
+                        for (const secret of res.data!.secrets) {
+                            if (!secret.expires_at) continue;
+                            add({
+                                kind: "secret",
+                                id: secret.id,
+                                name: secret.path,
+                                owner: label,
+                                vaultId: vault.id,
+                                expiresAt: secret.expires_at,
+                            });
+                        }
+                    }
+                }
+                if (wanted.has("grant")) {
+                    const res = await settle(requestOptions.signal, () =>
+                        this.sources.access.listGrants(vault.id, requestOptions),
+                    );
+                    if (res.error) {
+                        errors.push({ source: `${label}/grants`, message: res.error.message });
+                    } else {
+                        for (const policy of res.data!.policies) {
+                            if (!policy.expires_at) continue;
+                            const principal =
+                                policy.principal_type === "agent"
+                                    ? (agentNames.get(policy.principal_id) ?? policy.principal_id)
+                                    : policy.principal_id;
+                            add({
+                                kind: "grant",
+                                id: policy.id,
+                                name: `${vault.name}/${policy.secret_path_pattern}`,
+                                owner: `${policy.principal_type}:${principal}`,
+                                vaultId: vault.id,
+                                expiresAt: policy.expires_at,
+                            });
+                        }
+                    }
+                }
+            });
+        }
+
+        return {
+            data: {
+                generatedAt: new Date(now).toISOString(),
+                withinMs,
+                items: sortExpiringItems(items, sortBy),
+                groups: groupExpiringItems(items),
+                errors,
+            },
+            error: null,
+        };
+    }
+
+    private async listVaults(
+        vaultIds: string[] | undefined,
+        options: RequestOptions,
+        errors: ExpiringScanError[],
+    ): Promise<VaultResponse[]> {
+        const res = await settle(options.signal, () => this.sources.vault.list(options));
+        if (res.error) {
+            errors.push({ source: "vaults", message: res.error.message });
+            return [];
+        }
+        const vaults = res.data!.vaults;
+        return vaultIds ? vaults.filter((v) => vaultIds.includes(v.id)) : vaults;
+    }
+}
+
+/**
+ * Run one list call, turning a thrown error into an error envelope.
+ * A caller abort (the signal's own reason) is rethrown.
+ */
+async function settle<T>(
+    signal: AbortSignal | undefined,
+    call: () => Promise<OneclawResponse<T>>,
+): Promise<OneclawResponse<T>> {
+    try {
+        return await call();
+    } catch (err) {
+        if (signal?.aborted) throw err;
+        return {
+            data: null,
+            error: {
+                type: err instanceof OneclawError ? err.type : "error",
+                message: err instanceof Error ? err.message : String(err),
+            },
+        };
+    }
+}
+
+/**
+ * Return a sorted copy of `items`. Ties fall back to expiry, then name,
+ * so the order is stable across runs.
+ */
+export function sortExpiringItems(
+    items: readonly ExpiringItem[],
+    by: ExpiringSortKey = "expiresAt",
+    direction: "asc" | "desc" = "asc",
+): ExpiringItem[] {
+    const sign = direction === "desc" ? -1 : 1;
+    const byExpiry = (a: ExpiringItem, b: ExpiringItem) =>
+        a.expiresInMs - b.expiresInMs || a.name.localeCompare(b.name);
+    return [...items].sort((a, b) => {
+        const primary = by === "expiresAt" ? 0 : a[by].localeCompare(b[by]);
+        return sign * (primary || byExpiry(a, b));
+    });
+}
+
+/** Group items by `owner`; groups with the soonest expiry come first. */
+export function groupExpiringItems(
+    items: readonly ExpiringItem[],
+): ExpiringGroup[] {
+    const groups = new Map<string, ExpiringItem[]>();
+    for (const item of sortExpiringItems(items)) {
+        const group = groups.get(item.owner);
+        if (group) group.push(item);
+        else groups.set(item.owner, [item]);
+    }
+    return [...groups].map(([owner, grouped]) => ({ owner, items: grouped }));
+}
@@ -1,31 +1,249 @@
 import type { HttpClient } from "../core/http";
+import {
+    encodePathId,
+    encodeSecretPath,
+    normalizeSecretPath,
+} from "../core/paths";
 import type {
     PutSecretRequest,
     SecretResponse,
     SecretMetadataResponse,
     SecretListResponse,
+    SecretVersionListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import type { PluginRegistry, PolicyContext } from "../plugins";
+import {
+    OneclawError,
+    PolicyDeniedError,
+    SecretFormatError,
+    ValidationError,
+} from "../core/errors";
+import { mapConcurrent } from "../core/concurrency";
+import { paginate, pageOf, type PaginateOptions } from "../core/paginate";
+import {
+    isRotationPolicy,
+    ROTATION_METADATA_KEY,
+} from "../core/rotation-policy";
+import type { SecretCache } from "../core/secret-cache";
+import {
+    wrapSecretResponse,
+    type WithSecretValue,
+} from "../core/secret-value";
+import {
+    parseDotenv,
+    renderEnv,
+    defaultEnvName,
+    type EnvFormat,
+    type EnvNameMapping,
+} from "../formats/dotenv";
+import { generateSecretValue, type GenerateSpec } from "../generate";
+import {
+    parseCertificateChain,
+    type CertificateChain,
+} from "../formats/certificate";
+import {
+    parsePrivateKey,
+    parseSshKey,
+    type PrivateKeyInfo,
+    type SshKeyInfo,
+} from "../formats/keys";
+import {
+    encryptSecretValue,
+    decryptSecretResponse,
+    CLIENT_ENCRYPTION_METADATA_KEY,
+} from "../core/client-encryption";
+import { AccessResource } from "./access";
 
-export interface SetSecretOptions {
+export interface SetSecretOptions extends RequestOptions {
     type?: string;
     metadata?: Record<string, unknown>;
     expires_at?: string;
+    /**
+     * Rotation policy sent to the API. A `RotationPolicy` (with
+     * `rotator` and `interval`) is also recorded in the secret's metadata
+     * for the SDK rotation engine.
+     */
     rotation_policy?: Record<string, unknown>;
     max_access_count?: number;
 }
 
-export interface GetSecretOptions {
-    /** Reason for accessing this secret (logged in the audit trail). */
+export interface GetSecretOptions extends RequestOptions {
+    /**
+     * Reason for accessing this secret (logged in the audit trail).
+     * Shorthand for `audit.reason`; takes precedence when both are set.
+     */
     reason?: string;
+    /** Fetch this version instead of the latest. */
+    version?: number;
+    /**
+     * Skip the client cache and fetch from the API. The result still
+     * refreshes the cache.
+     */
+    bypassCache?: boolean;
+    /** Return the value as a `SecretValue` that redacts itself when printed. */
+    wrap?: boolean;
+}
+
+/** Options for the bulk methods (`getMany`, `setMany`, `deletePrefix`). */
+export interface BulkOptions extends RequestOptions {
+    /** Maximum requests in flight at once (default: 8). */
+    concurrency?: number;
 }
 
+/**
+ * Outcome for one key of a bulk call. `status` classifies the error
+ * so callers can, e.g., request approval for every `approval_required`.
+ */
+export interface BulkItemResult<T> {
+    key: string;
+    status:
+        | "ok"
+        | "not_found"
+        | "approval_required"
+        | "payment_required"
+        | "policy_denied"
+        | "error";
+    data: T | null;
+    error: { type: string; message: string; detail?: string } | null;
+}
+
+/** One entry for `setMany`. */
+export interface SecretEntry {
+    key: string;
+    value: string;
+    options?: SetSecretOptions;
+}
+
+/** Result of `deletePrefix`. */
+export interface DeletePrefixResult {
+    /** Secret paths under the prefix. */
+    matched: string[];
+    /** Per-key delete results (empty for a dry run). */
+    results: BulkItemResult<void>[];
+}
+
+/** Options for `getEnv` and `exportEnv`. */
+export interface EnvExportOptions extends BulkOptions, EnvNameMapping {
+    /** Only include secrets under this path prefix (stripped from names). */
+    prefix?: string;
+}
+
+/** Options for `importEnv`. */
+export interface EnvImportOptions extends BulkOptions, EnvNameMapping {
+    /** Path prefix prepended to every imported secret. */
+    prefix?: string;
+    /** Secret type for imported values (default: "generic"). */
+    type?: string;
+    /** Replace secrets that already exist (default: false). */
+    overwrite?: boolean;
+}
+
+/** Result of `importEnv`. */
+export interface EnvImportResult {
+    /** Per-key results for the secrets written. */
+    written: BulkItemResult<SecretMetadataResponse>[];
+    /** Paths left alone because they already exist and `overwrite` is off. */
+    skipped: string[];
+}
+
+/** Options for `generate`. */
+export interface GenerateSecretOptions extends Omit<SetSecretOptions, "type"> {
+    /** Include the generated value in the result (default: false). */
+    returnValue?: boolean;
+}
+
+/** Result of `generate`. */
+export interface GenerateSecretResult {
+    /** Metadata of the stored secret. */
+    secret: SecretMetadataResponse;
+    /** The generated value, only when `returnValue` was set. */
+    value?: string;
+    /** Public key of a generated keypair. */
+    publicKey?: string;
+}
+
+/** Options for `copy`. */
+export interface CopySecretOptions extends RequestOptions {
+    /** Vault to write to (default: the source vault). */
+    targetVaultId?: string;
+    /** Replace a secret already at the destination (default: false). */
+    overwrite?: boolean;
+    /**
+     * Replay every version, oldest first, so the destination keeps the
+     * source's history (default: false — latest version only).
+     */
+    history?: boolean;
+    /** Check the source and destination without writing anything. */
+    dryRun?: boolean;
+}
+
+/** Options for `move` and `renamePrefix`. */
+export interface MoveSecretOptions extends CopySecretOptions {
+    /**
+     * Re-create access policies whose `secret_path_pattern` referenced the
+     * old path or prefix with the new one (default: true). Only applies
+     * within one vault.
+     */
+    rewritePolicies?: boolean;
+}
+
+/** Outcome for one path of `copy`, `move` or `renamePrefix`. */
+export interface SecretTransferItem {
+    from: string;
+    to: string;
+    status: "planned" | "ok" | "error";
+    /** Number of versions written (or to be written, for a dry run). */
+    versions?: number;
+    error?: string;
+}
+
+/** A policy whose path pattern is re-created under the new path. */
+export interface PolicyRewrite {
+    policyId: string;
+    from: string;
+    to: string;
+    status: "planned" | "ok" | "skipped" | "error";
+    /** ID of the replacement policy. */
+    newPolicyId?: string;
+    error?: string;
+}
+
+/** Result of `copy`, `move` and `renamePrefix`. */
+export interface SecretTransferResult {
+    items: SecretTransferItem[];
+    policies: PolicyRewrite[];
+    /** Set when the vault's policies could not be listed for rewriting. */
+    policyError?: string;
+}
+
+/** Read options for the typed accessors (`getJson`, `getCertificate`, …). */
+export type TypedGetOptions = Omit<GetSecretOptions, "wrap">;
+
+const DEFAULT_BULK_CONCURRENCY = 8;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 /**
  * Secrets resource — store, retrieve, list, rotate, and delete secrets
  * within a vault.
+ *
+ * When `plugins.cryptoProvider` is configured, values are encrypted
+ * client-side before upload and decrypted after retrieval. When
+ * `plugins.policyEngine` is configured, `get`, `set`, `delete` and
+ * `list` are checked locally first and throw `PolicyDeniedError` if
+ * denied.
+ *
+ * When the client has a `cache`, `get` serves cached values and writes
+ * or deletes made through this resource invalidate them. Cached reads
+ * make no request, so they are not recorded in the server audit trail.
  */
 export class SecretsResource {
-    constructor(private readonly http: HttpClient) {}
+    constructor(
+        private readonly http: HttpClient,
+        private readonly plugins: PluginRegistry = {},
+        private readonly cache?: SecretCache,
+    ) {}
 
     /**
      * Store or update a secret at the given path inside a vault.
@@ -37,54 +255,203 @@ export class SecretsResource {
         value: string,
         options: SetSecretOptions = {},
     ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        key = normalizeSecretPath(key);
+        await this.authorize(vaultId, key, "write");
+        let metadata = options.metadata;
+        if (isRotationPolicy(options.rotation_policy)) {
+            // Mirrored so `list` exposes it to the rotation scheduler.
+            metadata = {
+                ...metadata,
+                [ROTATION_METADATA_KEY]: options.rotation_policy,
+            };
+        }
+        const provider = this.plugins.cryptoProvider;
+        if (provider) {
+            ({ value, metadata } = await encryptSecretValue(
+                provider,
+                value,
+                metadata,
+            ));
+        }
         const body: PutSecretRequest = {
             type: options.type ?? "generic",
             value,
-            metadata: options.metadata,
+            metadata,
             expires_at: options.expires_at,
             rotation_policy: options.rotation_policy,
             max_access_count: options.max_access_count,
         };
-        return this.http.request<SecretMetadataResponse>(
-            "PUT",
-            `/v1/vaults/${vaultId}/secrets/${key}`,
-            { body },
-        );
+        try {
+            return await this.http.request<SecretMetadataResponse>(
+                "PUT",
+                `/v1/vaults/${encodePathId(vaultId, "vault ID")}/secrets/${encodeSecretPath(key)}`,
+                {
+                    body,
+                    signal: options.signal,
+                    timeoutMs: options.timeoutMs,
+                    audit: options.audit,
+                },
+            );
+        } finally {
+            this.cache?.invalidate(vaultId, key);
+        }
     }
 
     /**
      * Retrieve a decrypted secret value.
      * May return a `PaymentRequiredError` (402) or `ApprovalRequiredError`
-     * depending on access policies.
+     * depending on access policies. Client-side encrypted values that
+     * cannot be decrypted return a `client_encryption_error`. Pass
+     * `version` to read an earlier version, and `wrap: true` to receive
+     * the value as a redacting `SecretValue`.
      */
     async get(
         vaultId: string,
         key: string,
-        _options?: GetSecretOptions,
-    ): Promise<OneclawResponse<SecretResponse>> {
-        return this.http.request<SecretResponse>(
+        options: GetSecretOptions & { wrap: true },
+    ): Promise<OneclawResponse<WithSecretValue<SecretResponse>>>;
+    async get(
+        vaultId: string,
+        key: string,
+        options?: GetSecretOptions,
+    ): Promise<OneclawResponse<SecretResponse>>;
+    async get(
+        vaultId: string,
+        key: string,
+        options: GetSecretOptions = {},
+    ): Promise<
+        | OneclawResponse<SecretResponse>
+        | OneclawResponse<WithSecretValue<SecretResponse>>
+    > {
+        const res = await this.read(vaultId, key, options);
+        return options.wrap ? wrapSecretResponse(res) : res;
+    }
+
+    /**
+     * Drop cached values for one secret, or for every secret in the vault
+     * when `key` is omitted. `key` is normalized like every other path
+     * argument. No-op without a client cache.
+     */
+    invalidate(vaultId: string, key?: string): void {
+        this.cache?.invalidate(
+            vaultId,
+            key === undefined ? undefined : normalizeSecretPath(key),
+        );
+    }
+
+    /** Drop every cached secret value. No-op without a client cache. */
+    clearCache(): void {
+        this.cache?.clear();
+    }
+
+    /**
+     * List version metadata for a secret (no plaintext values), newest
+     * first. Requires a server that supports `?versions=true` on the
+     * secret path; a server that answers with anything other than a
+     * version list gets a `version_unsupported` error, and whatever it
+     * returned is discarded.
+     */
+    async versions(
+        vaultId: string,
+        key: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<SecretVersionListResponse>> {
+        key = normalizeSecretPath(key);
+        await this.authorize(vaultId, key, "read");
+        const res = await this.http.request<SecretVersionListResponse>(
             "GET",
-            `/v1/vaults/${vaultId}/secrets/${key}`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/secrets/${encodeSecretPath(key)}`,
+            { query: { versions: "true" }, ...options },
         );
+        if (res.error || isVersionList(res.data)) return res;
+        return {
+            data: null,
+            error: {
+                type: "version_unsupported",
+                message: "Server did not return a version list; it may not support secret versions",
+            },
+            meta: res.meta,
+        };
+    }
+
+    /**
+     * Restore an earlier version by writing its value (with its type,
+     * metadata, expiry and read limit) as a new version. History is
+     * preserved — the rolled-back value becomes the latest version
+     * rather than replacing it. Nothing is written if the server can't
+     * return the requested version.
+     */
+    async rollback(
+        vaultId: string,
+        key: string,
+        version: number,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        const previous = await this.get(vaultId, key, { version, ...options });
+        if (previous.error) {
+            return { data: null, error: previous.error, meta: previous.meta };
+        }
+        const { value, type, metadata, expires_at, max_access_count } = previous.data!;
+        return this.set(vaultId, key, value, {
+            type,
+            metadata,
+            expires_at,
+            max_access_count,
+            ...options,
+        });
     }
 
     /** Delete a secret from a vault. */
-    async delete(vaultId: string, key: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>(
-            "DELETE",
-            `/v1/vaults/${vaultId}/secrets/${key}`,
-        );
+    async delete(
+        vaultId: string,
+        key: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        key = normalizeSecretPath(key);
+        await this.authorize(vaultId, key, "delete");
+        try {
+            return await this.http.request<void>(
+                "DELETE",
+                `/v1/vaults/${encodePathId(vaultId, "vault ID")}/secrets/${encodeSecretPath(key)}`,
+                options,
+            );
+        } finally {
+            this.cache?.invalidate(vaultId, key);
+        }
     }
 
     /** List secret keys (metadata only, no plaintext values). */
     async list(
         vaultId: string,
         prefix?: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<SecretListResponse>> {
+        await this.authorize(vaultId, prefix ?? "", "list");
         return this.http.request<SecretListResponse>(
             "GET",
-            `/v1/vaults/${vaultId}/secrets`,
-            { query: prefix ? { prefix } : undefined },
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/secrets`,
+            { query: prefix ? { prefix } : undefined, ...options },
+        );
+    }
+
+    /**
+     * Iterate over secret metadata, with the same interface as the paged
+     * `iterate*` methods. The list endpoint returns everything in one
+     * request; `maxItems` still stops early.
+     */
+    iterate(
+        vaultId: string,
+        options: { prefix?: string } & PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<SecretMetadataResponse, void, undefined> {
+        const { prefix, pageSize: _pageSize, maxItems, ...requestOptions } = options;
+        return paginate(
+            async () =>
+                pageOf(
+                    await this.list(vaultId, prefix, requestOptions),
+                    (data) => data.secrets,
+                    false,
+                ),
+            { maxItems },
         );
     }
 
@@ -100,4 +467,850 @@ export class SecretsResource {
     ): Promise<OneclawResponse<SecretMetadataResponse>> {
         return this.set(vaultId, key, newValue, options);
     }
+
+    /**
+     * Generate a random value (password, token, UUID, keypair or AES key)
+     * with WebCrypto and store it with the matching `type`. The value is
+     * only included in the result when `returnValue` is set; a keypair's
+     * public key is always returned.
+     *
+     * @example
+     * ```ts
+     * await client.secrets.generate(vaultId, "db/password", { kind: "password", length: 40 });
+     * const { data } = await client.secrets.generate(
+     *   vaultId, "signing-key", { kind: "keypair", algorithm: "Ed25519" },
+     * );
+     * publish(data!.publicKey);
+     * ```
+     */
+    async generate(
+        vaultId: string,
+        key: string,
+        spec: GenerateSpec,
+        options: GenerateSecretOptions = {},
+    ): Promise<OneclawResponse<GenerateSecretResult>> {
+        const { returnValue, ...setOptions } = options;
+        const generated = await generateSecretValue(spec);
+        const res = await this.set(vaultId, key, generated.value, {
+            ...setOptions,
+            type: generated.type,
+        });
+        if (res.error) return { data: null, error: res.error, meta: res.meta };
+        const result: GenerateSecretResult = { secret: res.data! };
+        if (returnValue) result.value = generated.value;
+        if (generated.publicKey) result.publicKey = generated.publicKey;
+        return { data: result, error: null, meta: res.meta };
+    }
+
+    /**
+     * Read a secret and parse its value as JSON. A value that is not
+     * valid JSON returns a `secret_format_error`.
+     */
+    async getJson<T = unknown>(
+        vaultId: string,
+        key: string,
+        options: TypedGetOptions = {},
+    ): Promise<OneclawResponse<T>> {
+        return this.getParsed(vaultId, key, options, (value) => {
+            try {
+                return JSON.parse(value) as T;
+            } catch {
+                throw new SecretFormatError(`Secret "${key}" is not valid JSON`);
+            }
+        });
+    }
+
+    /** Store `value` as JSON. Throws `SecretFormatError` if it can't be serialised. */
+    async setJson(
+        vaultId: string,
+        key: string,
+        value: unknown,
+        options: SetSecretOptions = {},
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        const text = JSON.stringify(value);
+        if (text === undefined) {
+            throw new SecretFormatError(`Value for "${key}" cannot be serialised as JSON`);
+        }
+        return this.set(vaultId, key, text, options);
+    }
+
+    /**
+     * Store a name → value map as a dotenv-formatted `env` secret. Throws
+     * `SecretFormatError` for names that are not valid env var names.
+     */
+    async setEnv(
+        vaultId: string,
+        key: string,
+        vars: Record<string, string>,
+        options: Omit<SetSecretOptions, "type"> = {},
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        const invalid = Object.keys(vars).filter((name) => !ENV_NAME.test(name));
+        if (invalid.length > 0) {
+            throw new SecretFormatError(
+                `Invalid env var name(s): ${invalid.join(", ")}`,
+            );
+        }
+        return this.set(vaultId, key, renderEnv(vars, "dotenv"), {
+            ...options,
+            type: "env",
+        });
+    }
+
+    /**
+     * Read a `certificate` secret as a parsed PEM chain (subject, issuer,
+     * validity per certificate). Malformed PEM returns a
+     * `secret_format_error`.
+     */
+    async getCertificate(
+        vaultId: string,
+        key: string,
+        options: TypedGetOptions = {},
+    ): Promise<OneclawResponse<CertificateChain>> {
+        return this.getParsed(vaultId, key, options, parseCertificateChain);
+    }
+
+    /**
+     * Store a PEM certificate chain. Throws `SecretFormatError` before
+     * uploading if it is truncated or contains anything but certificates.
+     */
+    async setCertificate(
+        vaultId: string,
+        key: string,
+        pem: string,
+        options: Omit<SetSecretOptions, "type"> = {},
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        parseCertificateChain(pem);
+        return this.set(vaultId, key, pem, { ...options, type: "certificate" });
+    }
+
+    /**
+     * Read a `private_key` secret (PEM or JWK) with its parsed metadata.
+     * Malformed keys return a `secret_format_error`.
+     */
+    async getPrivateKey(
+        vaultId: string,
+        key: string,
+        options: TypedGetOptions = {},
+    ): Promise<OneclawResponse<PrivateKeyInfo & { value: string }>> {
+        return this.getParsed(vaultId, key, options, (value) => ({
+            ...parsePrivateKey(value),
+            value,
+        }));
+    }
+
+    /**
+     * Store a PEM private key or JWK (object or JSON string). Throws
+     * `SecretFormatError` before uploading if it is truncated, a public
+     * key, or not a recognised format.
+     */
+    async setPrivateKey(
+        vaultId: string,
+        key: string,
+        privateKey: string | Record<string, unknown>,
+        options: Omit<SetSecretOptions, "type"> = {},
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        const value =
+            typeof privateKey === "string" ? privateKey : JSON.stringify(privateKey);
+        parsePrivateKey(value);
+        return this.set(vaultId, key, value, { ...options, type: "private_key" });
+    }
+
+    /**
+     * Read an `ssh_key` secret (OpenSSH public key line or private key)
+     * with its type and fingerprint. Malformed keys return a
+     * `secret_format_error`.
+     */
+    async getSshKey(
+        vaultId: string,
+        key: string,
+        options: TypedGetOptions = {},
+    ): Promise<OneclawResponse<SshKeyInfo & { value: string }>> {
+        return this.getParsed(vaultId, key, options, async (value) => ({
+            ...(await parseSshKey(value)),
+            value,
+        }));
+    }
+
+    /**
+     * Store an OpenSSH public key line or `OPENSSH PRIVATE KEY`. Throws
+     * `SecretFormatError` before uploading if it is malformed.
+     */
+    async setSshKey(
+        vaultId: string,
+        key: string,
+        sshKey: string,
+        options: Omit<SetSecretOptions, "type"> = {},
+    ): Promise<OneclawResponse<SecretMetadataResponse>> {
+        await parseSshKey(sshKey);
+        return this.set(vaultId, key, sshKey, { ...options, type: "ssh_key" });
+    }
+
+    /**
+     * Fetch several secrets with bounded concurrency. Never fails the
+     * whole batch: each key gets its own result, in input order.
+     */
+    async getMany(
+        vaultId: string,
+        keys: string[],
+        options: BulkOptions & Pick<GetSecretOptions, "reason"> = {},
+    ): Promise<BulkItemResult<SecretResponse>[]> {
+        const { concurrency, ...getOptions } = options;
+        return mapConcurrent(
+            keys,
+            concurrency ?? DEFAULT_BULK_CONCURRENCY,
+            (key) =>
+                this.settle(key, options.signal, () =>
+                    this.get(vaultId, key, getOptions),
+                ),
+        );
+    }
+
+    /**
+     * Store several secrets with bounded concurrency. Accepts a
+     * `{ key: value }` map or entries with per-key `SetSecretOptions`.
+     */
+    async setMany(
+        vaultId: string,
+        entries: SecretEntry[] | Record<string, string>,
+        options: BulkOptions = {},
+    ): Promise<BulkItemResult<SecretMetadataResponse>[]> {
+        const { concurrency, ...requestOptions } = options;
+        const list: SecretEntry[] = Array.isArray(entries)
+            ? entries
+            : Object.entries(entries).map(([key, value]) => ({ key, value }));
+        return mapConcurrent(
+            list,
+            concurrency ?? DEFAULT_BULK_CONCURRENCY,
+            (entry) =>
+                this.settle(entry.key, options.signal, () =>
+                    this.set(vaultId, entry.key, entry.value, {
+                        ...requestOptions,
+                        ...entry.options,
+                    }),
+                ),
+        );
+    }
+
+    /**
+     * Delete every secret whose path starts with `prefix`, found via
+     * `list`. With `dryRun: true`, only reports what would be deleted.
+     * Throws `ValidationError` for an empty prefix.
+     */
+    async deletePrefix(
+        vaultId: string,
+        prefix: string,
+        options: BulkOptions & { dryRun?: boolean } = {},
+    ): Promise<OneclawResponse<DeletePrefixResult>> {
+        if (!prefix) {
+            throw new ValidationError(
+                "deletePrefix requires a non-empty prefix",
+            );
+        }
+        const { concurrency, dryRun, ...requestOptions } = options;
+
+        const listed = await this.list(vaultId, prefix, requestOptions);
+        if (listed.error) {
+            return { data: null, error: listed.error, meta: listed.meta };
+        }
+        // Guard against servers that ignore the prefix filter.
+        const matched = listed
+            .data!.secrets.map((secret) => secret.path)
+            .filter((path) => path.startsWith(prefix));
+
+        const results = dryRun
+            ? []
+            : await mapConcurrent(
+                  matched,
+                  concurrency ?? DEFAULT_BULK_CONCURRENCY,
+                  (key) =>
+                      this.settle(key, options.signal, () =>
+                          this.delete(vaultId, key, requestOptions),
+                      ),
+              );
+        return { data: { matched, results }, error: null, meta: listed.meta };
+    }
+
+    /**
+     * Copy a secret to another path (or vault), carrying over `type`,
+     * `metadata`, `expires_at` and `max_access_count`. The destination is
+     * read back and compared before success is reported. Returns a
+     * `transfer_failed` envelope if the destination exists (and
+     * `overwrite` is off) or any step fails.
+     */
+    async copy(
+        vaultId: string,
+        from: string,
+        to: string,
+        options: CopySecretOptions = {},
+    ): Promise<OneclawResponse<SecretTransferResult>> {
+        const item = await this.transfer(vaultId, from, to, options, false);
+        return transferResponse(item, { items: [item], policies: [] });
+    }
+
+    /**
+     * Copy a secret, verify the copy, then delete the source. Access
+     * policies whose pattern is exactly `from` are re-created for `to`
+     * and the old ones revoked.
+     */
+    async move(
+        vaultId: string,
+        from: string,
+        to: string,
+        options: MoveSecretOptions = {},
+    ): Promise<OneclawResponse<SecretTransferResult>> {
+        const item = await this.transfer(vaultId, from, to, options, true);
+        if (item.status === "error") return transferResponse(item);
+        const rewritten = await this.rewritePolicies(
+            vaultId,
+            (pattern) => (pattern === from ? to : undefined),
+            options,
+            [],
+        );
+        return transferResponse(item, { items: [item], ...rewritten });
+    }
+
+    /**
+     * Move every secret under `oldPrefix` to `newPrefix`, then re-create
+     * access policies whose pattern starts with `oldPrefix`. Policies are
+     * left alone if any secret failed to move, so nothing loses access.
+     * Throws `ValidationError` for an empty or unchanged prefix.
+     */
+    async renamePrefix(
+        vaultId: string,
+        oldPrefix: string,
+        newPrefix: string,
+        options: MoveSecretOptions & BulkOptions = {},
+    ): Promise<OneclawResponse<SecretTransferResult>> {
+        if (!oldPrefix || oldPrefix === newPrefix) {
+            throw new ValidationError(
+                "renamePrefix requires a non-empty prefix that differs from the new one",
+            );
+        }
+        // Catch a new prefix that can't form valid paths before moving anything.
+        normalizeSecretPath(`${newPrefix}x`);
+        const { concurrency, ...transferOptions } = options;
+        const listed = await this.list(vaultId, oldPrefix, options);
+        if (listed.error) {
+            return { data: null, error: listed.error, meta: listed.meta };
+        }
+        const paths = listed
+            .data!.secrets.map((secret) => secret.path)
+            .filter((path) => path.startsWith(oldPrefix));
+        const items = await mapConcurrent(
+            paths,
+            concurrency ?? DEFAULT_BULK_CONCURRENCY,
+            (path) =>
+                this.transfer(
+                    vaultId,
+                    path,
+                    newPrefix + path.slice(oldPrefix.length),
+                    transferOptions,
+                    true,
+                ),
+        );
+        const rewritten = await this.rewritePolicies(
+            vaultId,
+            (pattern) =>
+                pattern.startsWith(oldPrefix)
+                    ? newPrefix + pattern.slice(oldPrefix.length)
+                    : undefined,
+            options,
+            items.filter((item) => item.status === "error"),
+        );
+        return { data: { items, ...rewritten }, error: null };
+    }
+
+    /**
+     * Read env vars. With a `key`, parses that single `env` secret as a
+     * dotenv file. Otherwise reads every secret under `prefix` as one var,
+     * named by `toEnvName` (default: `db/prod-password` →
+     * `DB_PROD_PASSWORD`); an error envelope is returned if any secret
+     * cannot be read or two paths map to the same name — a partial
+     * environment is never returned.
+     */
+    async getEnv(
+        vaultId: string,
+        key: string,
+        options?: TypedGetOptions,
+    ): Promise<OneclawResponse<Record<string, string>>>;
+    async getEnv(
+        vaultId: string,
+        options?: EnvExportOptions,
+    ): Promise<OneclawResponse<Record<string, string>>>;
+    async getEnv(
+        vaultId: string,
+        keyOrOptions: string | EnvExportOptions = {},
+        getOptions: TypedGetOptions = {},
+    ): Promise<OneclawResponse<Record<string, string>>> {
+        if (typeof keyOrOptions === "string") {
+            return this.getParsed(vaultId, keyOrOptions, getOptions, parseDotenv);
+        }
+        const options = keyOrOptions;
+        const {
+            prefix = "",
+            toEnvName = defaultEnvName,
+            toSecretPath: _toSecretPath,
+            ...bulkOptions
+        } = options;
+
+        const listed = await this.list(vaultId, prefix || undefined, bulkOptions);
+        if (listed.error) {
+            return { data: null, error: listed.error, meta: listed.meta };
+        }
+        const paths = listed
+            .data!.secrets.map((secret) => secret.path)
+            .filter((path) => path.startsWith(prefix));
+
+        const results = await this.getMany(vaultId, paths, bulkOptions);
+        const failed = results.filter((r) => r.status !== "ok");
+        if (failed.length > 0) {
+            return {
+                data: null,
+                error: {
+                    type: failed[0].error!.type,
+                    message: `Failed to read ${failed.length} secret(s): ${failed
+                        .map((r) => `${r.key} (${r.status})`)
+                        .join(", ")}`,
+                },
+                meta: listed.meta,
+            };
+        }
+
+        const vars: Record<string, string> = {};
+        const sources: Record<string, string> = {};
+        for (const { key, data } of results) {
+            const name = toEnvName(key.slice(prefix.length));
+            if (name in vars) {
+                return {
+                    data: null,
+                    error: {
+                        type: "validation_error",
+                        message: `Secrets "${sources[name]}" and "${key}" both map to ${name}`,
+                    },
+                    meta: listed.meta,
+                };
+            }
+            vars[name] = data!.value;
+            sources[name] = key;
+        }
+        return { data: vars, error: null, meta: listed.meta };
+    }
+
+    /**
+     * Render every secret under `prefix` as a dotenv file (default),
+     * shell `export` script, JSON or YAML. See `getEnv` for naming.
+     */
+    async exportEnv(
+        vaultId: string,
+        options: EnvExportOptions & { format?: EnvFormat } = {},
+    ): Promise<OneclawResponse<string>> {
+        const { format, ...envOptions } = options;
+        const res = await this.getEnv(vaultId, envOptions);
+        if (res.error) return { data: null, error: res.error, meta: res.meta };
+        return {
+            data: renderEnv(res.data!, format),
+            error: null,
+            meta: res.meta,
+        };
+    }
+
+    /**
+     * Store the variables from dotenv text as secrets at
+     * `prefix + toSecretPath(name)` (default: the name unchanged).
+     * Existing secrets are skipped unless `overwrite` is set.
+     */
+    async importEnv(
+        vaultId: string,
+        dotenvText: string,
+        options: EnvImportOptions = {},
+    ): Promise<OneclawResponse<EnvImportResult>> {
+        const {
+            prefix = "",
+            type,
+            overwrite = false,
+            toSecretPath = (name: string) => name,
+            toEnvName: _toEnvName,
+            ...bulkOptions
+        } = options;
+
+        const entries = Object.entries(parseDotenv(dotenvText)).map(
+            ([name, value]) => ({
+                key: prefix + toSecretPath(name),
+                value,
+                options: { type },
+            }),
+        );
+
+        let skipped: string[] = [];
+        let toWrite = entries;
+        if (!overwrite && entries.length > 0) {
+            const listed = await this.list(vaultId, prefix || undefined, bulkOptions);
+            if (listed.error) {
+                return { data: null, error: listed.error, meta: listed.meta };
+            }
+            const existing = new Set(listed.data!.secrets.map((s) => s.path));
+            skipped = entries.filter((e) => existing.has(e.key)).map((e) => e.key);
+            toWrite = entries.filter((e) => !existing.has(e.key));
+        }
+
+        const written = await this.setMany(vaultId, toWrite, bulkOptions);
+        return { data: { written, skipped }, error: null };
+    }
+
+    /**
+     * Read a secret and parse its value. `SecretFormatError`s from
+     * `parse` become error envelopes, like API errors.
+     */
+    private async getParsed<T>(
+        vaultId: string,
+        key: string,
+        options: TypedGetOptions,
+        parse: (value: string) => T | Promise<T>,
+    ): Promise<OneclawResponse<T>> {
+        const res = await this.read(vaultId, key, options);
+        if (res.error) return { data: null, error: res.error, meta: res.meta };
+        try {
+            return { data: await parse(res.data!.value), error: null, meta: res.meta };
+        } catch (err) {
+            if (!(err instanceof SecretFormatError)) throw err;
+            return {
+                data: null,
+                error: { type: err.type, message: err.message },
+                meta: res.meta,
+            };
+        }
+    }
+
+    /**
+     * Copy one secret (optionally with its history), verify the copy and,
+     * for moves, delete the source. Never throws for API errors; they are
+     * reported on the item. The destination is only ever inspected through
+     * `list`, so no read of it uses up a `max_access_count`.
+     */
+    private async transfer(
+        vaultId: string,
+        from: string,
+        to: string,
+        options: CopySecretOptions,
+        removeSource: boolean,
+    ): Promise<SecretTransferItem> {
+        const {
+            targetVaultId = vaultId,
+            overwrite = false,
+            history = false,
+            dryRun = false,
+            ...requestOptions
+        } = options;
+        from = normalizeSecretPath(from);
+        to = normalizeSecretPath(to);
+        const item: SecretTransferItem = { from, to, status: "planned" };
+        const fail = (error: string): SecretTransferItem => ({ ...item, status: "error", error });
+        if (targetVaultId === vaultId && from === to) {
+            return fail("source and destination are the same");
+        }
+        const read = (vault: string, path: string, version?: number) =>
+            this.get(vault, path, { ...requestOptions, version, bypassCache: true });
+
+        if (!overwrite) {
+            const existing = await this.metadataOf(targetVaultId, to, requestOptions);
+            if (existing.error) return fail(existing.error.message);
+            if (existing.data) return fail(`"${to}" already exists`);
+        }
+
+        let versions: SecretResponse[];
+        if (history) {
+            const listed = await this.versions(vaultId, from, requestOptions);
+            if (listed.error) return fail(listed.error.message);
+            versions = [];
+            // Oldest first, so the newest ends up as the current version.
+            for (const { version } of [...listed.data!.versions].reverse()) {
+                const res = await read(vaultId, from, version);
+                if (res.error) return fail(`version ${version}: ${res.error.message}`);
+                versions.push(res.data!);
+            }
+            if (versions.length === 0) return fail(`"${from}" has no versions`);
+        } else {
+            const res = await read(vaultId, from);
+            if (res.error) return fail(res.error.message);
+            versions = [res.data!];
+        }
+        item.versions = versions.length;
+        if (dryRun) return item;
+
+        let written: SecretMetadataResponse | undefined;
+        for (const version of versions) {
+            const { [CLIENT_ENCRYPTION_METADATA_KEY]: _marker, ...metadata } =
+                version.metadata ?? {};
+            const res = await this.set(targetVaultId, to, version.value, {
+                ...requestOptions,
+                type: version.type,
+                metadata,
+                expires_at: version.expires_at,
+                max_access_count: version.max_access_count,
+            });
+            if (res.error) return fail(res.error.message);
+            written = res.data!;
+        }
+
+        const latest = versions[versions.length - 1];
+        const check = await this.metadataOf(targetVaultId, to, requestOptions);
+        if (check.error) return fail(`verification failed: ${check.error.message}`);
+        if (
+            !check.data ||
+            check.data.version !== written!.version ||
+            check.data.type !== latest.type
+        ) {
+            return fail("verification failed: destination does not match what was written");
+        }
+
+        if (removeSource) {
+            const res = await this.delete(vaultId, from, requestOptions);
+            if (res.error) {
+                return fail(`copied, but the source was not deleted: ${res.error.message}`);
+            }
+        }
+        return { ...item, status: "ok" };
+    }
+
+    /**
+     * Re-create each policy whose pattern `rewrite` maps to a new pattern,
+     * then revoke the original. Nothing is rewritten across vaults; with
+     * `failed` items, matching policies are reported as skipped.
+     */
+    private async rewritePolicies(
+        vaultId: string,
+        rewrite: (pattern: string) => string | undefined,
+        options: MoveSecretOptions,
+        failed: SecretTransferItem[],
+    ): Promise<Pick<SecretTransferResult, "policies" | "policyError">> {
+        const { targetVaultId, rewritePolicies = true, dryRun, ...rest } = options;
+        if (!rewritePolicies || (targetVaultId && targetVaultId !== vaultId)) {
+            return { policies: [] };
+        }
+        const requestOptions: RequestOptions = {
+            signal: rest.signal,
+            timeoutMs: rest.timeoutMs,
+            audit: rest.audit,
+        };
+        const access = new AccessResource(this.http);
+        const grants = await access.listGrants(vaultId, requestOptions);
+        if (grants.error) {
+            return { policies: [], policyError: grants.error.message };
+        }
+
+        const rewrites: PolicyRewrite[] = [];
+        for (const policy of grants.data!.policies) {
+            const to = rewrite(policy.secret_path_pattern);
+            if (to === undefined) continue;
+            const entry: PolicyRewrite = {
+                policyId: policy.id,
+                from: policy.secret_path_pattern,
+                to,
+                status: "planned",
+            };
+            rewrites.push(entry);
+            if (failed.length > 0) {
+                entry.status = "skipped";
+                entry.error = `${failed.length} secret(s) were not moved`;
+                continue;
+            }
+            if (dryRun) continue;
+
+            const grant =
+                policy.principal_type === "agent"
+                    ? access.grantAgent.bind(access)
+                    : access.grantHuman.bind(access);
+            const created = await grant(vaultId, policy.principal_id, policy.permissions, {
+                ...requestOptions,
+                secretPathPattern: to,
+                conditions: policy.conditions,
+                expires_at: policy.expires_at,
+            });
+            if (created.error) {
+                entry.status = "error";
+                entry.error = created.error.message;
+                continue;
+            }
+            entry.newPolicyId = created.data!.id;
+            const revoked = await access.revoke(vaultId, policy.id, requestOptions);
+            if (revoked.error) {
+                entry.status = "error";
+                entry.error = `new policy created, but the old one was not revoked: ${revoked.error.message}`;
+                continue;
+            }
+            entry.status = "ok";
+        }
+        return { policies: rewrites };
+    }
+
+    /**
+     * Look up one secret's metadata through `list`, without reading its
+     * value. `data` is null when the path does not exist.
+     */
+    private async metadataOf(
+        vaultId: string,
+        path: string,
+        options: RequestOptions,
+    ): Promise<OneclawResponse<SecretMetadataResponse | null>> {
+        const listed = await this.list(vaultId, path, options);
+        if (listed.error) return { data: null, error: listed.error, meta: listed.meta };
+        const found = listed.data!.secrets.find((s) => s.path === path);
+        return { data: found ?? null, error: null, meta: listed.meta };
+    }
+
+    /** Authorize and read a secret, through the cache when configured. */
+    private async read(
+        vaultId: string,
+        key: string,
+        options: GetSecretOptions,
+    ): Promise<OneclawResponse<SecretResponse>> {
+        key = normalizeSecretPath(key);
+        await this.authorize(vaultId, key, "read");
+        const cache = this.cache;
+        if (!cache) return this.fetchSecret(vaultId, key, options);
+
+        const { version } = options;
+        if (!options.bypassCache) {
+            const hit = cache.lookup(vaultId, key, version);
+            if (hit?.stale) {
+                // The caller's signal must not cancel a refresh shared by later reads.
+                cache.revalidate(vaultId, key, version, () =>
+                    this.fetchSecret(vaultId, key, {
+                        ...options,
+                        signal: undefined,
+                    }),
+                );
+            }
+            if (hit) return hit.response;
+        }
+        const generation = cache.generation();
+        const res = await this.fetchSecret(vaultId, key, options);
+        cache.store(generation, vaultId, key, version, res);
+        return res;
+    }
+
+    /**
+     * Fetch and decrypt a secret from the API, bypassing the cache. A
+     * versioned read answered with a different version (a server that
+     * ignores `?version=`) becomes a `version_unsupported` error.
+     */
+    private async fetchSecret(
+        vaultId: string,
+        key: string,
+        options: GetSecretOptions,
+    ): Promise<OneclawResponse<SecretResponse>> {
+        const res = await this.http.request<SecretResponse>(
+            "GET",
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/secrets/${encodeSecretPath(key)}`,
+            {
+                query: { version: options.version },
+                signal: options.signal,
+                timeoutMs: options.timeoutMs,
+                audit: options.reason
+                    ? { ...options.audit, reason: options.reason }
+                    : options.audit,
+            },
+        );
+        if (
+            options.version !== undefined &&
+            res.data &&
+            res.data.version !== options.version
+        ) {
+            return {
+                data: null,
+                error: {
+                    type: "version_unsupported",
+                    message: `Requested version ${options.version} of "${key}" but the server returned version ${res.data.version}`,
+                },
+                meta: res.meta,
+            };
+        }
+        return decryptSecretResponse(this.plugins.cryptoProvider, res);
+    }
+
+    /**
+     * Run one call of a bulk operation and classify its outcome. Errors
+     * thrown by the SDK (policy denials, auto-pay limits, network
+     * failures) become per-key results; a caller abort still rejects.
+     */
+    private async settle<T>(
+        key: string,
+        signal: AbortSignal | undefined,
+        call: () => Promise<OneclawResponse<T>>,
+    ): Promise<BulkItemResult<T>> {
+        let res: OneclawResponse<T>;
+        try {
+            res = await call();
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            const type = err instanceof OneclawError ? err.type : "error";
+            res = {
+                data: null,
+                error: {
+                    type,
+                    message: err instanceof Error ? err.message : String(err),
+                },
+            };
+        }
+        if (!res.error) {
+            return { key, status: "ok", data: res.data, error: null };
+        }
+        const known = [
+            "not_found",
+            "approval_required",
+            "payment_required",
+            "policy_denied",
+        ] as const;
+        const status =
+            known.find((type) => type === res.error!.type) ?? "error";
+        return { key, status, data: null, error: res.error };
+    }
+
+    /** Run the configured policy engine, throwing if it denies the call. */
+    private async authorize(
+        vaultId: string,
+        secretPath: string,
+        operation: PolicyContext["operation"],
+    ): Promise<void> {
+        const engine = this.plugins.policyEngine;
+        if (!engine) return;
+        const principal = await this.http.resolvePrincipal();
+        const decision = await engine.evaluate({
+            ...principal,
+            vaultId,
+            secretPath,
+            operation,
+        });
+        if (!decision.allowed) throw new PolicyDeniedError(decision);
+    }
+}
+
+/** Envelope for single-path `copy`/`move`: an error envelope when the transfer failed. */
+function transferResponse(
+    item: SecretTransferItem,
+    result?: SecretTransferResult,
+): OneclawResponse<SecretTransferResult> {
+    if (item.status === "error" || !result) {
+        return {
+            data: null,
+            error: { type: "transfer_failed", message: `${item.from} → ${item.to}: ${item.error}` },
+        };
+    }
+    return { data: result, error: null };
+}
+
+/** Whether a `?versions=true` response is really a list of version metadata. */
+function isVersionList(data: unknown): data is SecretVersionListResponse {
+    if (!data || typeof data !== "object") return false;
+    const { versions } = data as { versions?: unknown };
+    return (
+        Array.isArray(versions) &&
+        versions.every(
+            (v) =>
+                v !== null &&
+                typeof v === "object" &&
+                typeof (v as { version?: unknown }).version === "number" &&
+                !("value" in v),
+        )
+    );
 }
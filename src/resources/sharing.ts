@@ -1,10 +1,16 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
 import type {
     CreateShareRequest,
     ShareResponse,
     SharedSecretResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import {
+    wrapSecretResponse,
+    type WithSecretValue,
+} from "../core/secret-value";
 
 export interface ShareListResponse {
     shares: ShareResponse[];
@@ -48,11 +54,12 @@ export class SharingResource {
     async create(
         secretId: string,
         options: CreateShareRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<ShareResponse>> {
         return this.http.request<ShareResponse>(
             "POST",
-            `/v1/secrets/${secretId}/share`,
-            { body: options },
+            `/v1/secrets/${encodePathId(secretId, "secret ID")}/share`,
+            { body: options, ...requestOptions },
         );
     }
 
@@ -60,44 +67,87 @@ export class SharingResource {
      * Access a shared secret using its share ID.
      * This is a public endpoint — no authentication required,
      * but the share must not be expired or over its access limit.
+     * Pass `wrap: true` to receive the value as a redacting `SecretValue`.
      */
     async access(
         shareId: string,
-    ): Promise<OneclawResponse<SharedSecretResponse>> {
-        return this.http.request<SharedSecretResponse>(
+        options: RequestOptions & { wrap: true },
+    ): Promise<OneclawResponse<WithSecretValue<SharedSecretResponse>>>;
+    async access(
+        shareId: string,
+        options?: RequestOptions & { wrap?: boolean },
+    ): Promise<OneclawResponse<SharedSecretResponse>>;
+    async access(
+        shareId: string,
+        options: RequestOptions & { wrap?: boolean } = {},
+    ): Promise<
+        | OneclawResponse<SharedSecretResponse>
+        | OneclawResponse<WithSecretValue<SharedSecretResponse>>
+    > {
+        const { wrap, ...requestOptions } = options;
+        const res = await this.http.request<SharedSecretResponse>(
             "GET",
-            `/v1/share/${shareId}`,
+            `/v1/share/${encodePathId(shareId, "share ID")}`,
+            requestOptions,
         );
+        return wrap ? wrapSecretResponse(res) : res;
     }
 
     /** List shares you have sent (outbound). */
-    async listOutbound(): Promise<OneclawResponse<ShareListResponse>> {
+    async listOutbound(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ShareListResponse>> {
         return this.http.request<ShareListResponse>(
             "GET",
             "/v1/shares/outbound",
+            options,
         );
     }
 
     /** List shares others have sent to you (inbound). */
-    async listInbound(): Promise<OneclawResponse<ShareListResponse>> {
+    async listInbound(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<ShareListResponse>> {
         return this.http.request<ShareListResponse>(
             "GET",
             "/v1/shares/inbound",
+            options,
         );
     }
 
     /** Accept an inbound share. */
-    async accept(shareId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("POST", `/v1/shares/${shareId}/accept`);
+    async accept(
+        shareId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "POST",
+            `/v1/shares/${encodePathId(shareId, "share ID")}/accept`,
+            options,
+        );
     }
 
     /** Decline an inbound share. */
-    async decline(shareId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("POST", `/v1/shares/${shareId}/decline`);
+    async decline(
+        shareId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "POST",
+            `/v1/shares/${encodePathId(shareId, "share ID")}/decline`,
+            options,
+        );
     }
 
     /** Revoke an active share link. Only the creator can revoke. */
-    async revoke(shareId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/share/${shareId}`);
+    async revoke(
+        shareId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        return this.http.request<void>(
+            "DELETE",
+            `/v1/share/${encodePathId(shareId, "share ID")}`,
+            options,
+        );
     }
 }
@@ -1,4 +1,6 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId } from "../core/paths";
+import type { OneclawClient } from "../core/client";
 import type {
     CreateVaultRequest,
     EnableCmekRequest,
@@ -6,60 +8,260 @@ import type {
     VaultResponse,
     VaultListResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import { SecretsResource, type SecretEntry } from "./secrets";
+import { AccessResource } from "./access";
+import { mapConcurrent } from "../core/concurrency";
+import { paginate, pageOf, type PaginateOptions } from "../core/paginate";
+import { BackupArchiveError } from "../core/errors";
+import { CLIENT_ENCRYPTION_METADATA_KEY } from "../core/client-encryption";
+import {
+    checkVaultArchiveKey,
+    openVaultArchive,
+    sealVaultArchive,
+    type ArchivedPolicy,
+    type VaultArchiveContents,
+    type VaultArchiveKey,
+    type VaultArchiveManifest,
+} from "../formats/vault-archive";
+
+/** Options for `vault.backup`. Give exactly one of `passphrase` or `cmekKey`. */
+export interface VaultBackupOptions extends VaultArchiveKey, RequestOptions {
+    /** Also archive the vault's access policies (default: false). */
+    includePolicies?: boolean;
+    /** Only archive secrets under this path prefix. */
+    prefix?: string;
+    /** Maximum secret reads in flight at once (default: 8). */
+    concurrency?: number;
+}
+
+/** Result of `vault.backup`. */
+export interface VaultBackup {
+    /** The sealed archive; write it to a file or object store as-is. */
+    archive: Uint8Array;
+    manifest: VaultArchiveManifest;
+}
+
+/** What `vault.restore` does with a path that already exists in the target vault. */
+export type RestoreConflictStrategy = "skip" | "overwrite" | "rename";
+
+/** Options for `vault.restore`. Give the `passphrase` or `cmekKey` the archive was sealed with. */
+export interface VaultRestoreOptions extends VaultArchiveKey, RequestOptions {
+    /** Vault to restore into (default: the vault the archive was taken from). */
+    targetVaultId?: string;
+    /** Handling of existing paths (default: "skip"). */
+    conflict?: RestoreConflictStrategy;
+    /** Recreate archived access policies (default: true). */
+    includePolicies?: boolean;
+    /** Maximum secret writes in flight at once (default: 8). */
+    concurrency?: number;
+}
+
+/** Outcome for one archived secret. */
+export interface RestoredSecret {
+    path: string;
+    /** Path written to when `status` is "renamed". */
+    restoredAs?: string;
+    status: "created" | "overwritten" | "renamed" | "skipped" | "error";
+    error?: string;
+}
+
+/** Outcome for one archived policy. */
+export interface RestoredPolicy {
+    policy: ArchivedPolicy;
+    /** "skipped" means an identical grant already exists. */
+    status: "created" | "skipped" | "error";
+    error?: string;
+}
+
+/** Result of `vault.restore`. */
+export interface VaultRestoreResult {
+    vaultId: string;
+    manifest: VaultArchiveManifest;
+    secrets: RestoredSecret[];
+    policies: RestoredPolicy[];
+}
+
+/** A secret as seen by `vault.diff` / `vault.sync` transforms. */
+export interface SyncSecret {
+    path: string;
+    type: string;
+    value: string;
+    metadata: Record<string, unknown>;
+    expires_at?: string;
+}
+
+/**
+ * Rewrites a source secret before it is compared with (and written to)
+ * the target — e.g. swapping a staging hostname for the production one.
+ * Return null to leave the path out entirely, such as a per-environment
+ * override. Changes to `path` are ignored.
+ */
+export type SyncTransform = (
+    secret: SyncSecret,
+) => SyncSecret | null | Promise<SyncSecret | null>;
+
+/** Options for `vault.diff`. */
+export interface VaultDiffOptions extends RequestOptions {
+    /** Only compare secrets under this path prefix. */
+    prefix?: string;
+    /** Client for the target vault when it lives in another org or deployment. */
+    targetClient?: OneclawClient;
+    transform?: SyncTransform;
+    /** Maximum secret reads in flight at once per vault (default: 8). */
+    concurrency?: number;
+}
+
+/** Field of a secret that `vault.diff` compares. */
+export type SecretDiffField = "value" | "type" | "metadata" | "expires_at";
+
+/**
+ * One path in a `VaultDiff`. Hashes are keyed with a random per-diff
+ * key: equal values have equal hashes within one diff, but a hash
+ * can't be checked against guessed plaintexts or compared across diffs.
+ */
+export interface SecretDiffEntry {
+    path: string;
+    sourceHash?: string;
+    targetHash?: string;
+    /** Fields that differ (for `changed`). */
+    changes?: SecretDiffField[];
+}
+
+/** Result of `vault.diff`, from the point of view of the target. */
+export interface VaultDiff {
+    /** Only in the source. */
+    added: SecretDiffEntry[];
+    /** Only in the target. */
+    removed: SecretDiffEntry[];
+    /** In both, with different values, types, metadata or expiry. */
+    changed: SecretDiffEntry[];
+    unchanged: string[];
+    /** Source paths the transform returned null for. */
+    skipped: string[];
+}
+
+/** Options for `vault.sync`. */
+export interface VaultSyncOptions extends VaultDiffOptions {
+    /** Delete target secrets that are missing from the source (default: false). */
+    delete?: boolean;
+    /** Report the planned actions without writing anything. */
+    dryRun?: boolean;
+}
+
+/** One write or delete performed (or planned) by `vault.sync`. */
+export interface SyncAction {
+    path: string;
+    action: "create" | "update" | "delete";
+    status: "planned" | "ok" | "error";
+    error?: string;
+}
+
+/** Result of `vault.sync`. */
+export interface VaultSyncResult {
+    diff: VaultDiff;
+    actions: SyncAction[];
+}
 
 /**
  * Vault resource — create, list, get, and delete encrypted vaults.
  */
 export class VaultResource {
-    constructor(private readonly http: HttpClient) {}
+    constructor(
+        private readonly http: HttpClient,
+        private readonly secrets: SecretsResource = new SecretsResource(http),
+        private readonly access: AccessResource = new AccessResource(http),
+    ) {}
 
     /** Create a new vault. */
     async create(
         options: CreateVaultRequest,
+        requestOptions?: RequestOptions,
     ): Promise<OneclawResponse<VaultResponse>> {
         return this.http.request<VaultResponse>("POST", "/v1/vaults", {
             body: {
                 name: options.name,
                 description: options.description ?? "",
             },
+            ...requestOptions,
         });
     }
 
     /** Fetch a single vault by ID. */
-    async get(vaultId: string): Promise<OneclawResponse<VaultResponse>> {
-        return this.http.request<VaultResponse>("GET", `/v1/vaults/${vaultId}`);
+    async get(
+        vaultId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<VaultResponse>> {
+        return this.http.request<VaultResponse>(
+            "GET",
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}`,
+            options,
+        );
     }
 
     /** List all vaults visible to the authenticated identity. */
-    async list(): Promise<OneclawResponse<VaultListResponse>> {
-        return this.http.request<VaultListResponse>("GET", "/v1/vaults");
+    async list(
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<VaultListResponse>> {
+        return this.http.request<VaultListResponse>(
+            "GET",
+            "/v1/vaults",
+            options,
+        );
+    }
+
+    /**
+     * Iterate over vaults. The list endpoint does not page, so this makes
+     * one request; `maxItems` still stops early.
+     */
+    iterate(
+        options: PaginateOptions & RequestOptions = {},
+    ): AsyncGenerator<VaultResponse, void, undefined> {
+        const { pageSize: _pageSize, maxItems, ...requestOptions } = options;
+        return paginate(
+            async () =>
+                pageOf(await this.list(requestOptions), (data) => data.vaults, false),
+            { maxItems },
+        );
     }
 
     /** Permanently delete a vault and all its secrets. */
-    async delete(vaultId: string): Promise<OneclawResponse<void>> {
-        return this.http.request<void>("DELETE", `/v1/vaults/${vaultId}`);
+    async delete(
+        vaultId: string,
+        options?: RequestOptions,
+    ): Promise<OneclawResponse<void>> {
+        const res = await this.http.request<void>(
+            "DELETE",
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}`,
+            options,
+        );
+        if (!res.error) this.secrets.invalidate(vaultId);
+        return res;
     }
 
     /** Enable CMEK on a vault (Business/Enterprise only). */
     async enableCmek(
         vaultId: string,
         request: EnableCmekRequest,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<VaultResponse>> {
         return this.http.request<VaultResponse>(
             "POST",
-            `/v1/vaults/${vaultId}/cmek`,
-            { body: request },
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/cmek`,
+            { body: request, ...options },
         );
     }
 
     /** Disable CMEK on a vault. Secrets remain encrypted but no new CMEK layer is applied. */
     async disableCmek(
         vaultId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<VaultResponse>> {
         return this.http.request<VaultResponse>(
             "DELETE",
-            `/v1/vaults/${vaultId}/cmek`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/cmek`,
+            options,
         );
     }
 
@@ -72,16 +274,18 @@ export class VaultResource {
         oldKeyBase64: string,
         newKeyBase64: string,
         newFingerprint: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<CmekRotationJobResponse>> {
         return this.http.request<CmekRotationJobResponse>(
             "POST",
-            `/v1/vaults/${vaultId}/cmek-rotate`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/cmek-rotate`,
             {
                 body: { new_fingerprint: newFingerprint },
                 headers: {
                     "x-cmek-old-key": oldKeyBase64,
                     "x-cmek-new-key": newKeyBase64,
                 },
+                ...options,
             },
         );
     }
@@ -90,10 +294,421 @@ export class VaultResource {
     async getRotationJobStatus(
         vaultId: string,
         jobId: string,
+        options?: RequestOptions,
     ): Promise<OneclawResponse<CmekRotationJobResponse>> {
         return this.http.request<CmekRotationJobResponse>(
             "GET",
-            `/v1/vaults/${vaultId}/cmek-rotate/${jobId}`,
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}/cmek-rotate/${encodePathId(jobId, "rotation job ID")}`,
+            options,
         );
     }
+
+    /**
+     * Snapshot a vault into an AES-256-GCM encrypted archive (see
+     * `sealVaultArchive`). The latest version of every secret is read
+     * with its type, metadata and `expires_at`; client-side encrypted
+     * values are stored decrypted and re-encrypted on restore. Any
+     * unreadable secret fails the whole backup rather than producing a
+     * partial archive. Throws `ValidationError` for a missing or
+     * malformed key.
+     */
+    async backup(
+        vaultId: string,
+        options: VaultBackupOptions,
+    ): Promise<OneclawResponse<VaultBackup>> {
+        const {
+            passphrase,
+            cmekKey,
+            includePolicies = false,
+            prefix,
+            concurrency = 8,
+            ...requestOptions
+        } = options;
+        const key = { passphrase, cmekKey };
+        checkVaultArchiveKey(key);
+
+        const vault = await this.get(vaultId, requestOptions);
+        if (vault.error) return { data: null, error: vault.error, meta: vault.meta };
+        const listed = await this.secrets.list(vaultId, prefix, requestOptions);
+        if (listed.error) return { data: null, error: listed.error, meta: listed.meta };
+
+        const read = await readValues(
+            this.secrets,
+            vaultId,
+            listed.data!.secrets.map((s) => s.path),
+            concurrency,
+            requestOptions,
+        );
+        if (read.error) return { data: null, error: read.error, meta: read.meta };
+        const contents: VaultArchiveContents = { secrets: read.data!, policies: [] };
+
+        if (includePolicies) {
+            const grants = await this.access.listGrants(vaultId, requestOptions);
+            if (grants.error) return { data: null, error: grants.error, meta: grants.meta };
+            contents.policies = grants.data!.policies.map((p) => ({
+                secret_path_pattern: p.secret_path_pattern,
+                principal_type: p.principal_type,
+                principal_id: p.principal_id,
+                permissions: p.permissions,
+                conditions: p.conditions,
+                expires_at: p.expires_at,
+            }));
+        }
+
+        const sealed = await sealVaultArchive(vault.data!, contents, key);
+        return { data: sealed, error: null };
+    }
+
+    /**
+     * Restore a `vault.backup` archive. Truncated, tampered or foreign
+     * archives and a wrong key return a `backup_archive_error` envelope
+     * before anything is written. Existing paths are skipped, overwritten
+     * or restored next to the original as `<path>.restored` (then
+     * `.restored-2`, …) according to `conflict`. Failed writes are
+     * reported per secret and per policy.
+     */
+    async restore(
+        archive: Uint8Array,
+        options: VaultRestoreOptions,
+    ): Promise<OneclawResponse<VaultRestoreResult>> {
+        const {
+            passphrase,
+            cmekKey,
+            targetVaultId,
+            conflict = "skip",
+            includePolicies = true,
+            concurrency = 8,
+            ...requestOptions
+        } = options;
+
+        let opened: Awaited<ReturnType<typeof openVaultArchive>>;
+        try {
+            opened = await openVaultArchive(archive, { passphrase, cmekKey });
+        } catch (err) {
+            if (!(err instanceof BackupArchiveError)) throw err;
+            return { data: null, error: { type: err.type, message: err.message } };
+        }
+        const { manifest, contents } = opened;
+        const vaultId = targetVaultId ?? manifest.vault.id;
+
+        const listed = await this.secrets.list(vaultId, undefined, requestOptions);
+        if (listed.error) return { data: null, error: listed.error, meta: listed.meta };
+        const taken = new Set(listed.data!.secrets.map((s) => s.path));
+
+        const results: RestoredSecret[] = [];
+        const entries: SecretEntry[] = [];
+        const pending: RestoredSecret[] = [];
+        for (const secret of contents.secrets) {
+            let result: RestoredSecret;
+            let target = secret.path;
+            if (!taken.has(secret.path)) {
+                result = { path: secret.path, status: "created" };
+            } else if (conflict === "overwrite") {
+                result = { path: secret.path, status: "overwritten" };
+            } else if (conflict === "rename") {
+                target = `${secret.path}.restored`;
+                for (let n = 2; taken.has(target); n++) {
+                    target = `${secret.path}.restored-${n}`;
+                }
+                result = { path: secret.path, restoredAs: target, status: "renamed" };
+            } else {
+                results.push({ path: secret.path, status: "skipped" });
+                continue;
+            }
+            taken.add(target);
+            results.push(result);
+            pending.push(result);
+            entries.push({
+                key: target,
+                value: secret.value,
+                options: {
+                    type: secret.type,
+                    metadata: secret.metadata,
+                    expires_at: secret.expires_at,
+                },
+            });
+        }
+        const written = await this.secrets.setMany(vaultId, entries, {
+            ...requestOptions,
+            concurrency,
+        });
+        written.forEach((res, i) => {
+            if (res.error) {
+                pending[i].status = "error";
+                pending[i].error = res.error.message;
+            }
+        });
+
+        const policies: RestoredPolicy[] = [];
+        if (includePolicies && contents.policies.length > 0) {
+            const grants = await this.access.listGrants(vaultId, requestOptions);
+            // The secrets are already written, so report the policies as
+            // failed instead of discarding those results.
+            const listError = grants.error?.message;
+            const sameGrant = (a: ArchivedPolicy, b: ArchivedPolicy) =>
+                a.principal_type === b.principal_type &&
+                a.principal_id === b.principal_id &&
+                a.secret_path_pattern === b.secret_path_pattern &&
+                [...a.permissions].sort().join() === [...b.permissions].sort().join();
+            for (const policy of contents.policies) {
+                if (listError !== undefined) {
+                    policies.push({
+                        policy,
+                        status: "error",
+                        error: `Could not list existing policies: ${listError}`,
+                    });
+                    continue;
+                }
+                if (grants.data!.policies.some((live) => sameGrant(live, policy))) {
+                    policies.push({ policy, status: "skipped" });
+                    continue;
+                }
+                const grant =
+                    policy.principal_type === "agent"
+                        ? this.access.grantAgent
+                        : policy.principal_type === "user"
+                          ? this.access.grantHuman
+                          : undefined;
+                if (!grant) {
+                    policies.push({
+                        policy,
+                        status: "error",
+                        error: `Unsupported principal type "${policy.principal_type}"`,
+                    });
+                    continue;
+                }
+                const res = await grant.call(
+                    this.access,
+                    vaultId,
+                    policy.principal_id,
+                    policy.permissions,
+                    {
+                        ...requestOptions,
+                        secretPathPattern: policy.secret_path_pattern,
+                        conditions: policy.conditions,
+                        expires_at: policy.expires_at,
+                    },
+                );
+                policies.push(
+                    res.error
+                        ? { policy, status: "error", error: res.error.message }
+                        : { policy, status: "created" },
+                );
+            }
+        }
+
+        return {
+            data: { vaultId, manifest, secrets: results, policies },
+            error: null,
+        };
+    }
+
+    /**
+     * Compare the secrets of two vaults by keyed hash; plaintext values
+     * never appear in the result. Type, metadata and `expires_at` are
+     * compared too. Pass `targetClient` when the target vault belongs to
+     * another client (e.g. another org).
+     */
+    async diff(
+        sourceId: string,
+        targetId: string,
+        options: VaultDiffOptions = {},
+    ): Promise<OneclawResponse<VaultDiff>> {
+        const res = await this.compare(sourceId, targetId, options);
+        return res.error
+            ? { data: null, error: res.error, meta: res.meta }
+            : { data: res.data!.diff, error: null };
+    }
+
+    /**
+     * Make the target vault match the source: create added secrets,
+     * update changed ones and, with `delete: true`, remove secrets only
+     * in the target. Writes go through the target client's
+     * `secrets.set`/`delete`; a failed write is reported in `actions`
+     * and does not stop the others.
+     */
+    async sync(
+        sourceId: string,
+        targetId: string,
+        options: VaultSyncOptions = {},
+    ): Promise<OneclawResponse<VaultSyncResult>> {
+        const { delete: deleteRemoved = false, dryRun = false, ...diffOptions } = options;
+        const compared = await this.compare(sourceId, targetId, diffOptions);
+        if (compared.error) return { data: null, error: compared.error, meta: compared.meta };
+        const { diff, wanted } = compared.data!;
+
+        const actions: SyncAction[] = [
+            ...diff.added.map((e) => ({ path: e.path, action: "create" as const, status: "planned" as const })),
+            ...diff.changed.map((e) => ({ path: e.path, action: "update" as const, status: "planned" as const })),
+        ];
+        const deletes: SyncAction[] = deleteRemoved
+            ? diff.removed.map((e) => ({ path: e.path, action: "delete", status: "planned" }))
+            : [];
+        if (dryRun) return { data: { diff, actions: [...actions, ...deletes] }, error: null };
+
+        const {
+            targetClient,
+            prefix: _prefix,
+            transform: _transform,
+            concurrency = 8,
+            ...requestOptions
+        } = diffOptions;
+        const target = targetClient?.secrets ?? this.secrets;
+        const written = await target.setMany(
+            targetId,
+            actions.map((a) => {
+                const secret = wanted.get(a.path)!;
+                return {
+                    key: a.path,
+                    value: secret.value,
+                    options: {
+                        type: secret.type,
+                        metadata: secret.metadata,
+                        expires_at: secret.expires_at,
+                    },
+                };
+            }),
+            { ...requestOptions, concurrency },
+        );
+        written.forEach((res, i) => settleAction(actions[i], res.error?.message));
+
+        await mapConcurrent(deletes, concurrency, async (action) => {
+            try {
+                const res = await target.delete(targetId, action.path, requestOptions);
+                settleAction(action, res.error?.message);
+            } catch (err) {
+                if (requestOptions.signal?.aborted) throw err;
+                settleAction(action, err instanceof Error ? err.message : String(err));
+            }
+        });
+
+        return { data: { diff, actions: [...actions, ...deletes] }, error: null };
+    }
+
+    /** Read both sides and diff them; also returns the transformed source secrets. */
+    private async compare(
+        sourceId: string,
+        targetId: string,
+        options: VaultDiffOptions,
+    ): Promise<OneclawResponse<{ diff: VaultDiff; wanted: Map<string, SyncSecret> }>> {
+        const { prefix, targetClient, transform, concurrency = 8, ...requestOptions } = options;
+        const target = targetClient?.secrets ?? this.secrets;
+
+        const [sourceList, targetList] = await Promise.all([
+            this.secrets.list(sourceId, prefix, requestOptions),
+            target.list(targetId, prefix, requestOptions),
+        ]);
+        for (const res of [sourceList, targetList]) {
+            if (res.error) return { data: null, error: res.error, meta: res.meta };
+        }
+        // Guard against servers that ignore the prefix filter.
+        const inPrefix = (s: { path: string }) => s.path.startsWith(prefix ?? "");
+        const targetMeta = new Map(
+            targetList.data!.secrets.filter(inPrefix).map((s) => [s.path, s]),
+        );
+
+        const sourceValues = await readValues(
+            this.secrets,
+            sourceId,
+            sourceList.data!.secrets.filter(inPrefix).map((s) => s.path),
+            concurrency,
+            requestOptions,
+        );
+        if (sourceValues.error) return { data: null, error: sourceValues.error, meta: sourceValues.meta };
+
+        const diff: VaultDiff = { added: [], removed: [], changed: [], unchanged: [], skipped: [] };
+        const wanted = new Map<string, SyncSecret>();
+        for (const original of sourceValues.data!) {
+            const transformed = transform ? await transform({ ...original }) : original;
+            if (!transformed) diff.skipped.push(original.path);
+            else wanted.set(original.path, { ...transformed, path: original.path });
+        }
+
+        const shared = [...wanted.keys()].filter((path) => targetMeta.has(path));
+        const targetValues = await readValues(target, targetId, shared, concurrency, requestOptions);
+        if (targetValues.error) return { data: null, error: targetValues.error, meta: targetValues.meta };
+        const current = new Map(targetValues.data!.map((s) => [s.path, s]));
+
+        const hmacKey = await crypto.subtle.importKey(
+            "raw",
+            crypto.getRandomValues(new Uint8Array(32)),
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["sign"],
+        );
+        const hash = async (value: string) => {
+            const mac = await crypto.subtle.sign("HMAC", hmacKey, new TextEncoder().encode(value));
+            return Array.from(new Uint8Array(mac).subarray(0, 8), (b) =>
+                b.toString(16).padStart(2, "0"),
+            ).join("");
+        };
+
+        for (const [path, secret] of wanted) {
+            const sourceHash = await hash(secret.value);
+            const existing = current.get(path);
+            if (!existing) {
+                diff.added.push({ path, sourceHash });
+                continue;
+            }
+            const targetHash = await hash(existing.value);
+            const changes: SecretDiffField[] = [];
+            if (sourceHash !== targetHash) changes.push("value");
+            if (secret.type !== existing.type) changes.push("type");
+            if (stableJson(secret.metadata) !== stableJson(existing.metadata)) changes.push("metadata");
+            if ((secret.expires_at ?? null) !== (existing.expires_at ?? null)) changes.push("expires_at");
+            if (changes.length > 0) diff.changed.push({ path, sourceHash, targetHash, changes });
+            else diff.unchanged.push(path);
+        }
+        const skipped = new Set(diff.skipped);
+        for (const path of targetMeta.keys()) {
+            if (!wanted.has(path) && !skipped.has(path)) diff.removed.push({ path });
+        }
+        return { data: { diff, wanted }, error: null };
+    }
+}
+
+/** Read secret values as `SyncSecret`s, failing on the first unreadable path. */
+async function readValues(
+    secrets: SecretsResource,
+    vaultId: string,
+    paths: string[],
+    concurrency: number,
+    options: RequestOptions,
+): Promise<OneclawResponse<SyncSecret[]>> {
+    const reads = await mapConcurrent(paths, concurrency, (path) =>
+        secrets.get(vaultId, path, { ...options, bypassCache: true }),
+    );
+    const out: SyncSecret[] = [];
+    for (const [i, res] of reads.entries()) {
+        if (res.error) {
+            return {
+                data: null,
+                error: { ...res.error, message: `Could not read "${paths[i]}": ${res.error.message}` },
+                meta: res.meta,
+            };
+        }
+        const { [CLIENT_ENCRYPTION_METADATA_KEY]: _marker, ...metadata } = res.data!.metadata ?? {};
+        out.push({
+            path: paths[i],
+            type: res.data!.type,
+            value: res.data!.value,
+            metadata,
+            expires_at: res.data!.expires_at,
+        });
+    }
+    return { data: out, error: null };
+}
+
+function settleAction(action: SyncAction, error: string | undefined): void {
+    action.status = error === undefined ? "ok" : "error";
+    if (error !== undefined) action.error = error;
+}
+
+/** JSON with sorted object keys, so key order doesn't count as a change. */
+function stableJson(value: unknown): string {
+    return JSON.stringify(value ?? {}, (_key, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+            : v,
+    );
 }
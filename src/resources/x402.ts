@@ -1,12 +1,20 @@
 import type { HttpClient } from "../core/http";
+import { encodePathId, encodeSecretPath } from "../core/paths";
 import type {
     PaymentRequirement,
     PaymentReceipt,
     X402Signer,
     SecretResponse,
     OneclawResponse,
+    RequestOptions,
 } from "../types";
+import type { PluginRegistry } from "../plugins";
 import { PaymentRequiredError, errorFromResponse } from "../core/errors";
+import { decryptSecretResponse } from "../core/client-encryption";
+import {
+    wrapSecretResponse,
+    type WithSecretValue,
+} from "../core/secret-value";
 
 /**
  * x402 resource — interact with the x402 payment protocol.
@@ -20,6 +28,7 @@ export class X402Resource {
     constructor(
         private readonly http: HttpClient,
         private readonly signer?: X402Signer,
+        private readonly plugins: PluginRegistry = {},
     ) {}
 
     /**
@@ -29,6 +38,7 @@ export class X402Resource {
      */
     async getPaymentRequirement(
         resourcePath: string,
+        options?: RequestOptions,
     ): Promise<PaymentRequirement | null> {
         const url = `${this.http.getBaseUrl()}${resourcePath}`;
         const headers: Record<string, string> = {
@@ -37,10 +47,11 @@ export class X402Resource {
         const token = this.http.getToken();
         if (token) headers["Authorization"] = `Bearer ${token}`;
 
-        const res = await fetch(url, {
-            method: "GET",
-            headers,
-        });
+        const res = await this.http.rawFetch(
+            url,
+            { method: "GET", headers },
+            options,
+        );
 
         if (res.status === 402) {
             return (await res.json()) as PaymentRequirement;
@@ -91,6 +102,7 @@ export class X402Resource {
     async verifyReceipt(
         resourcePath: string,
         receipt: PaymentReceipt,
+        options?: RequestOptions,
     ): Promise<boolean> {
         const url = `${this.http.getBaseUrl()}${resourcePath}`;
         const headers: Record<string, string> = {
@@ -100,21 +112,61 @@ export class X402Resource {
         const token = this.http.getToken();
         if (token) headers["Authorization"] = `Bearer ${token}`;
 
-        const res = await fetch(url, { method: "GET", headers });
+        const res = await this.http.rawFetch(
+            url,
+            { method: "GET", headers },
+            options,
+        );
         return res.ok;
     }
 
     /**
      * Convenience method: pay for and then fetch a secret in one call.
      * Handles the full 402 flow: request → receive 402 → sign payment →
-     * retry with payment header → return decrypted secret.
+     * retry with payment header → return decrypted secret. Pass
+     * `wrap: true` to receive the value as a redacting `SecretValue`.
      */
+    async withPayment(
+        vaultId: string,
+        key: string,
+        signer: X402Signer | undefined,
+        options: RequestOptions & { wrap: true },
+    ): Promise<OneclawResponse<WithSecretValue<SecretResponse>>>;
     async withPayment(
         vaultId: string,
         key: string,
         signer?: X402Signer,
+        options?: RequestOptions & { wrap?: boolean },
+    ): Promise<OneclawResponse<SecretResponse>>;
+    async withPayment(
+        vaultId: string,
+        key: string,
+        signer?: X402Signer,
+        options: RequestOptions & { wrap?: boolean } = {},
+    ): Promise<
+        | OneclawResponse<SecretResponse>
+        | OneclawResponse<WithSecretValue<SecretResponse>>
+    > {
+        const { wrap, ...requestOptions } = options;
+        const res = await this.fetchWithPayment(
+            vaultId,
+            key,
+            signer,
+            requestOptions,
+        );
+        return wrap ? wrapSecretResponse(res) : res;
+    }
+
+    /** The request → 402 → pay → retry flow behind `withPayment`. */
+    private async fetchWithPayment(
+        vaultId: string,
+        key: string,
+        signer: X402Signer | undefined,
+        options: RequestOptions,
     ): Promise<OneclawResponse<SecretResponse>> {
-        const path = `/v1/vaults/${vaultId}/secrets/${key}`;
+        const path =
+            `/v1/vaults/${encodePathId(vaultId, "vault ID")}` +
+            `/secrets/${encodeSecretPath(key)}`;
         const url = `${this.http.getBaseUrl()}${path}`;
         const headers: Record<string, string> = {
             "Content-Type": "application/json",
@@ -122,7 +174,11 @@ export class X402Resource {
         const token = this.http.getToken();
         if (token) headers["Authorization"] = `Bearer ${token}`;
 
-        const firstAttempt = await fetch(url, { method: "GET", headers });
+        const firstAttempt = await this.http.rawFetch(
+            url,
+            { method: "GET", headers },
+            options,
+        );
 
         if (firstAttempt.status !== 402) {
             if (!firstAttempt.ok) {
@@ -133,20 +189,24 @@ export class X402Resource {
                     meta: { status: firstAttempt.status },
                 };
             }
-            return {
+            return decryptSecretResponse(this.plugins.cryptoProvider, {
                 data: (await firstAttempt.json()) as SecretResponse,
                 error: null,
                 meta: { status: firstAttempt.status },
-            };
+            });
         }
 
         const requirement = (await firstAttempt.json()) as PaymentRequirement;
         const paymentHeader = await this.pay(requirement, signer);
 
-        const retry = await fetch(url, {
-            method: "GET",
-            headers: { ...headers, "X-PAYMENT": paymentHeader },
-        });
+        const retry = await this.http.rawFetch(
+            url,
+            {
+                method: "GET",
+                headers: { ...headers, "X-PAYMENT": paymentHeader },
+            },
+            options,
+        );
 
         if (!retry.ok) {
             const err = await errorFromResponse(retry);
@@ -157,10 +217,10 @@ export class X402Resource {
             };
         }
 
-        return {
+        return decryptSecretResponse(this.plugins.cryptoProvider, {
             data: (await retry.json()) as SecretResponse,
             error: null,
             meta: { status: retry.status },
-        };
+        });
     }
 }
@@ -0,0 +1,568 @@
+/**
+ * Secret rotation driven by `rotation_policy`.
+ *
+ * A `Rotator` knows how to produce a new value for one kind of secret and
+ * how to roll it out. `RotationEngine.rotate` runs each step in order:
+ *
+ *   generate → update downstream → verify → commit (`secrets.rotate`) → revoke old
+ *
+ * If update, verification or the commit fails, the rotator's `rollback`
+ * undoes the downstream change and the stored secret is left untouched.
+ *
+ * Values only the downstream system can create (such as server-issued
+ * API keys) use `issue` instead:
+ *
+ *   issue → commit (retried) → verify → revoke old
+ *
+ * The old value stops working when `issue` returns, so the new one is
+ * stored straight away and never thrown away. `RotationEngine.start`
+ * finds due secrets from `secrets.list` metadata on an interval.
+ */
+
+import { OneclawClient } from "./core/client";
+import { mapConcurrent } from "./core/concurrency";
+import { parseDuration } from "./core/duration";
+import { OneclawError } from "./core/errors";
+import { sleep } from "./core/retry";
+import { SecretValue } from "./core/secret-value";
+import {
+    getRotationPolicy,
+    ROTATION_METADATA_KEY,
+    type RotationPolicy,
+} from "./core/rotation-policy";
+import { generateSecretValue, type TokenSpec } from "./generate";
+import type {
+    OneclawClientConfig,
+    OneclawResponse,
+    RequestOptions,
+    SecretResponse,
+} from "./types";
+
+export { ROTATION_METADATA_KEY, type RotationPolicy };
+
+/** Everything a rotator needs to know about the secret being rotated. */
+export interface RotationContext {
+    client: OneclawClient;
+    vaultId: string;
+    path: string;
+    /** The secret as it was before rotation. */
+    current: SecretResponse;
+    policy: RotationPolicy;
+    signal?: AbortSignal;
+}
+
+/**
+ * Produces and rolls out new values for one kind of secret. Either
+ * `generate` or `issue` is required; omit a step the target system
+ * doesn't need.
+ */
+export interface Rotator {
+    /** Matched against `RotationPolicy.rotator`. */
+    readonly name: string;
+    /** Create the new value. */
+    generate?(ctx: RotationContext): Promise<string>;
+    /**
+     * Have the downstream system create the new value, invalidating the
+     * old one (e.g. `agents.rotateKey`). Used instead of `generate` and
+     * `update`; runs at the commit stage, right before the value is
+     * stored, and is never rolled back. `verify` runs after the commit.
+     */
+    issue?(ctx: RotationContext): Promise<string>;
+    /** Install the new value in the downstream system. */
+    update?(ctx: RotationContext, newValue: string): Promise<void>;
+    /** Check the new value works. Returning false aborts the rotation. */
+    verify?(ctx: RotationContext, newValue: string): Promise<boolean>;
+    /** Undo `update` after a failed verification or commit. */
+    rollback?(ctx: RotationContext, newValue: string): Promise<void>;
+    /** Invalidate the old value once the new one is stored. */
+    revoke?(ctx: RotationContext, oldValue: string): Promise<void>;
+}
+
+/** Step at which a rotation stopped. */
+export type RotationStage =
+    | "read"
+    | "generate"
+    | "update"
+    | "verify"
+    | "commit"
+    | "revoke";
+
+/** Outcome of rotating one secret. */
+export interface RotationResult {
+    vaultId: string;
+    path: string;
+    rotator?: string;
+    status: "rotated" | "failed" | "skipped";
+    /** Step that failed (for "failed"). */
+    stage?: RotationStage;
+    /** Why it failed or was skipped. */
+    error?: string;
+    /** Whether `rollback` ran successfully after a failure. */
+    rolledBack?: boolean;
+    /** New secret version (for "rotated"). */
+    version?: number;
+    /** Set when the new value is stored but revoking the old one failed. */
+    revokeError?: string;
+    /**
+     * A value from `issue` that could not be stored. The old value no
+     * longer works, so store this one yourself.
+     */
+    unsavedValue?: SecretValue;
+}
+
+/** A secret whose rotation interval has elapsed, or whose policy is invalid. */
+export interface DueRotation {
+    vaultId: string;
+    path: string;
+    policy: RotationPolicy;
+    /** When rotation became due (ISO 8601); the scan time for an invalid policy. */
+    dueAt: string;
+    /** Why the policy can't be evaluated. `rotateDue` reports it and does not rotate. */
+    error?: string;
+}
+
+/** Options for `RotationEngine.rotate`. */
+export interface RotateSecretOptions extends RequestOptions {
+    /** Use this policy instead of the one in the secret's metadata. */
+    policy?: RotationPolicy;
+}
+
+/** Options for `findDue` and `rotateDue`. */
+export interface RotationScanOptions extends RequestOptions {
+    /** Only consider secrets under this path prefix. */
+    prefix?: string;
+    /** Maximum rotations in flight at once (default: 4). */
+    concurrency?: number;
+}
+
+/** Options for `RotationEngine.start`. */
+export interface RotationSchedulerOptions extends RotationScanOptions {
+    /** How often to look for due secrets (default: 60000 ms). */
+    checkIntervalMs?: number;
+    /** Called with every rotation result. */
+    onResult?: (result: RotationResult) => void;
+    /** Called when a vault can't be scanned. */
+    onError?: (error: Error, vaultId: string) => void;
+}
+
+/** Handle returned by `RotationEngine.start`. */
+export interface RotationScheduler {
+    /** Scan every vault now and rotate what is due. */
+    runOnce(): Promise<RotationResult[]>;
+    /** Stop the interval. A scan in progress completes. */
+    stop(): void;
+}
+
+/** Attempts at storing a value from `Rotator.issue`. */
+const ISSUED_COMMIT_ATTEMPTS = 3;
+
+/**
+ * Runs rotators against secrets.
+ *
+ * @example
+ * ```ts
+ * const engine = new RotationEngine(client, [randomTokenRotator(), agentKeyRotator()]);
+ *
+ * await client.secrets.set(vaultId, "webhooks/signing", token, {
+ *   rotation_policy: { rotator: "random-token", interval: "30d" },
+ * });
+ *
+ * const scheduler = engine.start([vaultId], { onResult: console.log });
+ * ```
+ */
+export class RotationEngine {
+    private readonly rotators = new Map<string, Rotator>();
+
+    constructor(
+        private readonly client: OneclawClient,
+        rotators: Rotator[] = [],
+        private readonly now: () => number = Date.now,
+    ) {
+        for (const rotator of rotators) this.register(rotator);
+    }
+
+    /** Add or replace a rotator. */
+    register(rotator: Rotator): void {
+        this.rotators.set(rotator.name, rotator);
+    }
+
+    /** Rotate one secret now, whether or not it is due. */
+    async rotate(
+        vaultId: string,
+        path: string,
+        options: RotateSecretOptions = {},
+    ): Promise<RotationResult> {
+        const { policy: override, ...requestOptions } = options;
+        const base = { vaultId, path };
+
+        const current = await this.client.secrets.get(vaultId, path, {
+            ...requestOptions,
+            bypassCache: true,
+        });
+        if (current.error) {
+            return { ...base, status: "failed", stage: "read", error: current.error.message };
+        }
+        const secret = current.data!;
+        const policy = override ?? getRotationPolicy(secret.metadata);
+        if (!policy) {
+            return { ...base, status: "skipped", error: "no rotation policy" };
+        }
+        const rotator = this.rotators.get(policy.rotator);
+        if (!rotator) {
+            return {
+                ...base,
+                rotator: policy.rotator,
+                status: "skipped",
+                error: `no rotator registered as "${policy.rotator}"`,
+            };
+        }
+
+        const ctx: RotationContext = {
+            client: this.client,
+            vaultId,
+            path,
+            current: secret,
+            policy,
+            signal: requestOptions.signal,
+        };
+        if (rotator.issue) return this.rotateIssued(ctx, rotator, requestOptions);
+        if (!rotator.generate) {
+            return {
+                ...base,
+                rotator: rotator.name,
+                status: "skipped",
+                error: `rotator "${rotator.name}" has neither generate nor issue`,
+            };
+        }
+
+        let stage: RotationStage = "generate";
+        let newValue: string | undefined;
+        let version: number;
+        try {
+            newValue = await rotator.generate(ctx);
+            stage = "update";
+            await rotator.update?.(ctx, newValue);
+            stage = "verify";
+            if (rotator.verify && !(await rotator.verify(ctx, newValue))) {
+                throw new Error("verification failed");
+            }
+            stage = "commit";
+            version = await this.commit(ctx, newValue, requestOptions);
+        } catch (err) {
+            const result: RotationResult = {
+                ...base,
+                rotator: rotator.name,
+                status: "failed",
+                stage,
+                error: errorMessage(err),
+            };
+            if (stage !== "generate" && rotator.rollback) {
+                try {
+                    await rotator.rollback(ctx, newValue!);
+                    result.rolledBack = true;
+                } catch {
+                    result.rolledBack = false;
+                }
+            }
+            return result;
+        }
+
+        return this.revoke(ctx, rotator, {
+            ...base,
+            rotator: rotator.name,
+            status: "rotated",
+            version,
+        });
+    }
+
+    /**
+     * List secrets in a vault whose rotation interval has elapsed since
+     * `last_rotated_at` (or the secret's `created_at`). A secret whose
+     * policy can't be evaluated is listed with `error` set instead of
+     * failing the scan.
+     */
+    async findDue(
+        vaultId: string,
+        options: RotationScanOptions = {},
+    ): Promise<DueRotation[]> {
+        const { prefix, concurrency: _concurrency, ...requestOptions } = options;
+        const listed = await this.client.secrets.list(vaultId, prefix, requestOptions);
+        if (listed.error) throw responseError(listed);
+
+        const now = this.now();
+        const due: DueRotation[] = [];
+        for (const secret of listed.data!.secrets) {
+            const policy = getRotationPolicy(secret.metadata);
+            if (!policy) continue;
+            let interval: number;
+            try {
+                interval = parseDuration(policy.interval);
+            } catch (err) {
+                due.push({
+                    vaultId,
+                    path: secret.path,
+                    policy,
+                    dueAt: new Date(now).toISOString(),
+                    error: `invalid rotation policy: ${errorMessage(err)}`,
+                });
+                continue;
+            }
+            const last = Date.parse(policy.last_rotated_at ?? secret.created_at);
+            const dueAt = (Number.isNaN(last) ? 0 : last) + interval;
+            if (dueAt <= now) {
+                due.push({
+                    vaultId,
+                    path: secret.path,
+                    policy,
+                    dueAt: new Date(dueAt).toISOString(),
+                });
+            }
+        }
+        return due;
+    }
+
+    /**
+     * Rotate every due secret in a vault with bounded concurrency. Secrets
+     * with an invalid policy are reported as failed at the "read" stage.
+     */
+    async rotateDue(
+        vaultId: string,
+        options: RotationScanOptions = {},
+    ): Promise<RotationResult[]> {
+        const { prefix: _prefix, concurrency = 4, ...requestOptions } = options;
+        const due = await this.findDue(vaultId, options);
+        return mapConcurrent(due, concurrency, async (item): Promise<RotationResult> => {
+            if (item.error) {
+                return {
+                    vaultId,
+                    path: item.path,
+                    rotator: item.policy.rotator,
+                    status: "failed",
+                    stage: "read",
+                    error: item.error,
+                };
+            }
+            return this.rotate(vaultId, item.path, requestOptions);
+        });
+    }
+
+    /**
+     * Check `vaultIds` for due secrets every `checkIntervalMs` and rotate
+     * them. Scans never overlap, and the timer does not keep a Node.js
+     * process alive.
+     */
+    start(
+        vaultIds: string[],
+        options: RotationSchedulerOptions = {},
+    ): RotationScheduler {
+        const { checkIntervalMs = 60_000, onResult, onError, ...scan } = options;
+        let running: Promise<RotationResult[]> | undefined;
+
+        const runOnce = (): Promise<RotationResult[]> => {
+            running ??= (async () => {
+                const all: RotationResult[] = [];
+                for (const vaultId of vaultIds) {
+                    try {
+                        const results = await this.rotateDue(vaultId, scan);
+                        results.forEach((r) => onResult?.(r));
+                        all.push(...results);
+                    } catch (err) {
+                        onError?.(err instanceof Error ? err : new Error(String(err)), vaultId);
+                    }
+                }
+                return all;
+            })().finally(() => {
+                running = undefined;
+            });
+            return running;
+        };
+
+        const timer = setInterval(() => {
+            if (!running) runOnce().catch(() => {});
+        }, checkIntervalMs);
+        (timer as { unref?: () => void }).unref?.();
+
+        return { runOnce, stop: () => clearInterval(timer) };
+    }
+
+    /**
+     * Rotate with `Rotator.issue`. The value is stored as soon as it is
+     * issued, retrying the write; if every attempt fails it is handed
+     * back in `unsavedValue`. A failed verify leaves the new value stored.
+     */
+    private async rotateIssued(
+        ctx: RotationContext,
+        rotator: Rotator,
+        options: RequestOptions,
+    ): Promise<RotationResult> {
+        const base = { vaultId: ctx.vaultId, path: ctx.path, rotator: rotator.name };
+        let newValue: string;
+        try {
+            newValue = await rotator.issue!(ctx);
+        } catch (err) {
+            return { ...base, status: "failed", stage: "commit", error: errorMessage(err) };
+        }
+
+        let version: number | undefined;
+        let commitError = "";
+        for (let attempt = 1; version === undefined; attempt++) {
+            try {
+                version = await this.commit(ctx, newValue, options);
+            } catch (err) {
+                commitError = errorMessage(err);
+                if (attempt >= ISSUED_COMMIT_ATTEMPTS || ctx.signal?.aborted) break;
+                await sleep(250 * attempt, ctx.signal).catch(() => {});
+            }
+        }
+        if (version === undefined) {
+            return {
+                ...base,
+                status: "failed",
+                stage: "commit",
+                error: commitError,
+                unsavedValue: new SecretValue(newValue),
+            };
+        }
+
+        try {
+            if (rotator.verify && !(await rotator.verify(ctx, newValue))) {
+                throw new Error("verification failed");
+            }
+        } catch (err) {
+            return {
+                ...base,
+                status: "failed",
+                stage: "verify",
+                version,
+                error: `${errorMessage(err)} (the new value is stored)`,
+            };
+        }
+        return this.revoke(ctx, rotator, { ...base, status: "rotated", version });
+    }
+
+    /**
+     * Store `value` as a new version, keeping the secret's type, metadata,
+     * expiry, read limit and rotation policy. Throws on failure.
+     */
+    private async commit(
+        ctx: RotationContext,
+        value: string,
+        options: RequestOptions,
+    ): Promise<number> {
+        const { current } = ctx;
+        const policy = {
+            ...ctx.policy,
+            last_rotated_at: new Date(this.now()).toISOString(),
+        };
+        const res = await this.client.secrets.rotate(ctx.vaultId, ctx.path, value, {
+            ...options,
+            type: current.type,
+            metadata: { ...current.metadata, [ROTATION_METADATA_KEY]: policy },
+            rotation_policy: policy,
+            expires_at: current.expires_at,
+            max_access_count: current.max_access_count,
+        });
+        if (res.error) throw responseError(res);
+        return res.data!.version;
+    }
+
+    /** Run `Rotator.revoke` for a stored rotation, recording any failure. */
+    private async revoke(
+        ctx: RotationContext,
+        rotator: Rotator,
+        result: RotationResult,
+    ): Promise<RotationResult> {
+        try {
+            await rotator.revoke?.(ctx, ctx.current.value);
+        } catch (err) {
+            result.revokeError = errorMessage(err);
+        }
+        return result;
+    }
+}
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+/** The error of a failed envelope as a `OneclawError`. */
+function responseError(res: OneclawResponse<unknown>): OneclawError {
+    return new OneclawError(
+        res.error!.message,
+        res.meta?.status ?? 0,
+        res.error!.type,
+        res.error!.detail,
+    );
+}
+
+/**
+ * Rotator that replaces the secret with a random token. Token options
+ * come from `defaults`, overridden by the policy's `config`
+ * (`bytes`, `encoding`, `prefix`). Add `update`/`verify`/`revoke` by
+ * spreading the result: `{ ...randomTokenRotator(), update: … }`.
+ */
+export function randomTokenRotator(
+    defaults: Omit<TokenSpec, "kind"> = {},
+    name = "random-token",
+): Rotator {
+    return {
+        name,
+        async generate(ctx) {
+            const config = (ctx.policy.config ?? {}) as Omit<TokenSpec, "kind">;
+            const { value } = await generateSecretValue({
+                kind: "token",
+                ...defaults,
+                ...config,
+            });
+            return value;
+        },
+    };
+}
+
+/**
+ * Rotator for secrets holding a 1Claw agent API key. The policy's
+ * `config.agent_id` names the agent. `issue` calls `agents.rotateKey`
+ * at the commit stage, which invalidates the old key server-side, so
+ * the new key is stored immediately and there is nothing to revoke or
+ * roll back. With `baseUrl`, the stored key is then verified by
+ * exchanging it for an agent token on a separate client, which sends
+ * through the given `fetch` and `requestInit` (pass the engine
+ * client's own to keep the same transport).
+ */
+export function agentKeyRotator(
+    options: {
+        baseUrl?: string;
+        name?: string;
+    } & Pick<OneclawClientConfig, "fetch" | "requestInit"> = {},
+): Rotator {
+    const agentIdOf = (ctx: RotationContext): string => {
+        const agentId = ctx.policy.config?.agent_id;
+        if (typeof agentId !== "string" || !agentId) {
+            throw new Error('rotation policy is missing config.agent_id');
+        }
+        return agentId;
+    };
+    return {
+        name: options.name ?? "agent-api-key",
+        async issue(ctx) {
+            const res = await ctx.client.agents.rotateKey(agentIdOf(ctx), {
+                signal: ctx.signal,
+            });
+            if (res.error) throw responseError(res);
+            return res.data!.api_key;
+        },
+        async verify(ctx, newValue) {
+            if (!options.baseUrl) return newValue.length > 0;
+            const probe = new OneclawClient({
+                baseUrl: options.baseUrl,
+                fetch: options.fetch,
+                requestInit: options.requestInit,
+            });
+            const res = await probe.auth.agentToken(
+                { agent_id: agentIdOf(ctx), api_key: newValue },
+                { signal: ctx.signal },
+            );
+            return !res.error;
+        },
+    };
+}
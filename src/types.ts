@@ -31,6 +31,150 @@ export interface OneclawClientConfig {
     network?: string;
     /** Optional plugin registry for extending the SDK with custom providers. */
     plugins?: import("./plugins").PluginRegistry;
+    /**
+     * Retry policy for transient failures (429, 5xx, network errors).
+     * Omit to send every request exactly once.
+     */
+    retry?: RetryOptions;
+    /**
+     * Default deadline for every request in milliseconds. Applies per
+     * attempt when retries are enabled. Omit for no deadline.
+     */
+    timeoutMs?: number;
+    /**
+     * Request/response middleware. An array is appended after the
+     * built-ins (`errors`, `retry`, `auth`, `x402`); a function receives
+     * the built-in chain and returns the chain to use, so built-ins can
+     * be reordered, wrapped, or removed.
+     */
+    middleware?: import("./core/middleware").MiddlewareConfig;
+    /**
+     * `fetch` implementation used for every network call (default: the
+     * global `fetch`). Use it for proxy-aware or keep-alive agents, or
+     * to stub the network in tests.
+     */
+    fetch?: typeof fetch;
+    /**
+     * Extra `RequestInit` fields merged into every request, e.g. an
+     * undici `dispatcher`, `keepalive`, or `credentials`.
+     */
+    requestInit?: FetchInitExtras;
+    /**
+     * Cache `secrets.get` results in memory. Writes and deletes through
+     * this client invalidate affected entries; `close()` wipes the cache.
+     * Omit to always fetch.
+     */
+    cache?: SecretCacheOptions;
+}
+
+/**
+ * `RequestInit` fields that may be set client-wide. Method, body,
+ * headers and signal are always controlled per request by the SDK.
+ * Runtime-specific fields (such as undici's `dispatcher`) are allowed.
+ */
+export type FetchInitExtras = Omit<
+    RequestInit,
+    "method" | "body" | "headers" | "signal"
+> & { [key: string]: unknown };
+
+/**
+ * Per-call transport options accepted by every resource method.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * await client.secrets.get(vaultId, "db/pass", { signal: controller.signal });
+ * await client.vault.list({ timeoutMs: 2_000 });
+ * ```
+ */
+export interface RequestOptions {
+    /** Abort the request when this signal fires. */
+    signal?: AbortSignal;
+    /** Deadline for this call in milliseconds (overrides the client default). */
+    timeoutMs?: number;
+    /** Context recorded with this call in the server audit trail. */
+    audit?: AuditContext;
+}
+
+/**
+ * Per-call audit context. Sent as `X-1Claw-Audit-Reason`,
+ * `X-1Claw-Correlation-Id` and `X-1Claw-Audit-Tags` headers and recorded
+ * by the API in `AuditEvent.details` (`reason`, `correlation_id`, `tags`).
+ *
+ * @example
+ * ```ts
+ * await client.secrets.get(vaultId, "db/pass", {
+ *   audit: {
+ *     reason: "nightly backup job",
+ *     correlationId: task.traceId,
+ *     tags: { task: "backup", env: "prod" },
+ *   },
+ * });
+ * ```
+ */
+export interface AuditContext {
+    /** Why the call is being made. */
+    reason?: string;
+    /** Correlation or trace ID tying the call to an upstream task. */
+    correlationId?: string;
+    /** Free-form key/value tags. */
+    tags?: Record<string, string>;
+}
+
+/**
+ * Retry and backoff settings used by `HttpClient`.
+ *
+ * Delays grow exponentially from `baseDelayMs` and are capped at
+ * `maxDelayMs`. Non-idempotent methods (POST, PATCH) are only retried
+ * when the request carries an `Idempotency-Key` header.
+ */
+export interface RetryOptions {
+    /** Total attempts including the first one (default: 3). */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 250). */
+    baseDelayMs?: number;
+    /** Upper bound for a single backoff delay, including a server `Retry-After`, in milliseconds (default: 8000). */
+    maxDelayMs?: number;
+    /** Apply full jitter to each backoff delay (default: true). */
+    jitter?: boolean;
+    /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504). */
+    retryOnStatus?: number[];
+    /** Retry when `fetch` itself rejects, e.g. DNS or connection reset (default: true). */
+    retryOnNetworkError?: boolean;
+    /** Retry attempts that hit the `timeoutMs` deadline (default: true). */
+    retryOnTimeout?: boolean;
+    /** Wait for the server's `Retry-After` header when present (default: true). */
+    respectRetryAfter?: boolean;
+}
+
+/**
+ * In-memory cache for `secrets.get`. Fresh entries are served without a
+ * request; entries past their TTL but inside the stale window are served
+ * immediately while a single background request refreshes them.
+ *
+ * @example
+ * ```ts
+ * const client = createClient({
+ *   baseUrl: "https://api.1claw.xyz",
+ *   apiKey: "ocv_...",
+ *   cache: {
+ *     ttlMs: (vaultId, path) => (path.startsWith("api-keys/") ? 300_000 : 30_000),
+ *     staleWhileRevalidateMs: 60_000,
+ *   },
+ * });
+ * ```
+ */
+export interface SecretCacheOptions {
+    /**
+     * How long a value is fresh, in milliseconds, or a function returning
+     * it per secret (default: 60000). Never extends past the secret's
+     * `expires_at`.
+     */
+    ttlMs?: number | ((vaultId: string, path: string) => number);
+    /** How long a stale value may still be served while it is refreshed (default: 0). */
+    staleWhileRevalidateMs?: number;
+    /** Maximum cached secrets; the least recently used is evicted (default: 1000). */
+    maxEntries?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -202,12 +346,19 @@ export interface SecretResponse {
     created_at: string;
     expires_at?: string;
     cmek_encrypted?: boolean;
+    /** Read limit, on servers that return it. */
+    max_access_count?: number;
 }
 
 export interface SecretListResponse {
     secrets: SecretMetadataResponse[];
 }
 
+/** Version history for one secret path, newest first. */
+export interface SecretVersionListResponse {
+    versions: SecretMetadataResponse[];
+}
+
 // ---------------------------------------------------------------------------
 // Policies (Access Control) — request types from generated spec
 // ---------------------------------------------------------------------------
@@ -234,6 +385,23 @@ export interface PolicyListResponse {
     policies: PolicyResponse[];
 }
 
+/** A principal's effective permissions on one secret path. */
+export interface EffectiveAccess {
+    principalType: "user" | "agent";
+    principalId: string;
+    /** Union of permissions from every matching, unexpired policy. */
+    permissions: string[];
+    /** The policies that grant those permissions. */
+    policies: PolicyResponse[];
+}
+
+/** Result of `access.explain` — who can access a secret path, and why. */
+export interface SecretAccessExplanation {
+    vaultId: string;
+    secretPath: string;
+    principals: EffectiveAccess[];
+}
+
 // ---------------------------------------------------------------------------
 // Agents — request types from generated spec, responses hand-written
 // ---------------------------------------------------------------------------
@@ -622,6 +790,21 @@ export interface UsageHistoryResponse {
     events: UsageEventResponse[];
 }
 
+export interface CreditTransaction {
+    id: string;
+    type: string;
+    amount_cents: number;
+    balance_after_cents: number;
+    description: string;
+    created_at: string;
+}
+
+export interface CreditTransactionListResponse {
+    transactions: CreditTransaction[];
+    page: number;
+    limit: number;
+}
+
 // ---------------------------------------------------------------------------
 // Audit — hand-written (AuditQuery is SDK-only, not in the spec)
 // ---------------------------------------------------------------------------